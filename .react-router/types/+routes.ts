@@ -28,21 +28,69 @@ type Pages = {
   "/api/customers": {
     params: {};
   };
+  "/api/customers/:id/note": {
+    params: {
+      "id": string;
+    };
+  };
   "/api/sync-clover": {
     params: {};
   };
+  "/api/sync-clover/runs": {
+    params: {};
+  };
+  "/api/sync-clover/runs/:id": {
+    params: {
+      "id": string;
+    };
+  };
+  "/api/sync-clover/jobs/:id": {
+    params: {
+      "id": string;
+    };
+  };
+  "/api/sync-clover/jobs/:id/events": {
+    params: {
+      "id": string;
+    };
+  };
+  "/api/sync-clover/jobs/:id/cancel": {
+    params: {
+      "id": string;
+    };
+  };
   "/api/cache": {
     params: {};
   };
   "/api/cache-status": {
     params: {};
   };
+  "/api/schema-drift": {
+    params: {};
+  };
+  "/api/webhooks/clover": {
+    params: {};
+  };
+  "/api/oauth/clover/connect": {
+    params: {};
+  };
+  "/api/oauth/clover/callback": {
+    params: {};
+  };
+  "/api/admin/config": {
+    params: {};
+  };
+  "/api/admin/merchants/:id/check": {
+    params: {
+      "id": string;
+    };
+  };
 };
 
 type RouteFiles = {
   "root.tsx": {
     id: "root";
-    page: "/" | "/dashboard" | "/customers" | "/customers/print" | "/admin" | "/api/customers" | "/api/sync-clover" | "/api/cache" | "/api/cache-status";
+    page: "/" | "/dashboard" | "/customers" | "/customers/print" | "/admin" | "/api/customers" | "/api/customers/:id/note" | "/api/sync-clover" | "/api/sync-clover/runs" | "/api/sync-clover/runs/:id" | "/api/sync-clover/jobs/:id" | "/api/sync-clover/jobs/:id/events" | "/api/sync-clover/jobs/:id/cancel" | "/api/cache" | "/api/cache-status" | "/api/schema-drift" | "/api/webhooks/clover" | "/api/oauth/clover/connect" | "/api/oauth/clover/callback" | "/api/admin/config" | "/api/admin/merchants/:id/check";
   };
   "routes/home.tsx": {
     id: "routes/home";
@@ -68,10 +116,34 @@ type RouteFiles = {
     id: "routes/api.customers";
     page: "/api/customers";
   };
+  "routes/api.customers.note.tsx": {
+    id: "routes/api.customers.note";
+    page: "/api/customers/:id/note";
+  };
   "routes/api.sync-clover.tsx": {
     id: "routes/api.sync-clover";
     page: "/api/sync-clover";
   };
+  "routes/api.sync-clover.runs.tsx": {
+    id: "routes/api.sync-clover.runs";
+    page: "/api/sync-clover/runs";
+  };
+  "routes/api.sync-clover.runs.run.tsx": {
+    id: "routes/api.sync-clover.runs.run";
+    page: "/api/sync-clover/runs/:id";
+  };
+  "routes/api.sync-clover.jobs.job.tsx": {
+    id: "routes/api.sync-clover.jobs.job";
+    page: "/api/sync-clover/jobs/:id";
+  };
+  "routes/api.sync-clover.jobs.events.tsx": {
+    id: "routes/api.sync-clover.jobs.events";
+    page: "/api/sync-clover/jobs/:id/events";
+  };
+  "routes/api.sync-clover.jobs.cancel.tsx": {
+    id: "routes/api.sync-clover.jobs.cancel";
+    page: "/api/sync-clover/jobs/:id/cancel";
+  };
   "routes/api.cache.tsx": {
     id: "routes/api.cache";
     page: "/api/cache";
@@ -80,4 +152,28 @@ type RouteFiles = {
     id: "routes/api.cache-status";
     page: "/api/cache-status";
   };
+  "routes/api.schema-drift.tsx": {
+    id: "routes/api.schema-drift";
+    page: "/api/schema-drift";
+  };
+  "routes/api.webhooks.clover.tsx": {
+    id: "routes/api.webhooks.clover";
+    page: "/api/webhooks/clover";
+  };
+  "routes/api.oauth.clover.connect.tsx": {
+    id: "routes/api.oauth.clover.connect";
+    page: "/api/oauth/clover/connect";
+  };
+  "routes/api.oauth.clover.callback.tsx": {
+    id: "routes/api.oauth.clover.callback";
+    page: "/api/oauth/clover/callback";
+  };
+  "routes/api.admin.config.tsx": {
+    id: "routes/api.admin.config";
+    page: "/api/admin/config";
+  };
+  "routes/api.admin.merchants.check.tsx": {
+    id: "routes/api.admin.merchants.check";
+    page: "/api/admin/merchants/:id/check";
+  };
 };
\ No newline at end of file
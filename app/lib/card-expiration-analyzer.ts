@@ -13,6 +13,7 @@ export interface ExpirationStatus {
 
 export interface CustomerWithExpiration extends Customer {
   merchantCurrency: string;
+  merchantLabel?: string;
   expirationAnalysis: Array<{
     card: CustomerCard;
     expiration: ExpirationStatus;
@@ -206,4 +207,35 @@ export class CardExpirationAnalyzer {
       },
     };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Format customer data for notifications and the dashboard cards
+ *
+ * Kept free of server imports: the dashboard renders it in the browser.
+ */
+export function formatCustomerForNotification(customer: CustomerWithExpiration) {
+  const primaryEmail = customer.emailAddresses?.[0]?.emailAddress;
+  const primaryPhone = customer.phoneNumbers?.[0]?.phoneNumber;
+  const name = `${customer.firstName || ''} ${customer.lastName || ''}`.trim();
+
+  const expiringCards = customer.expirationAnalysis
+    .filter(analysis => ['expired', 'expiring-soon'].includes(analysis.expiration.status))
+    .map(analysis => ({
+      cardType: analysis.card.cardType,
+      last4: analysis.card.last4,
+      expirationDate: analysis.card.expirationDate,
+      daysUntilExpiration: analysis.expiration.daysUntilExpiration,
+      status: analysis.expiration.status,
+    }));
+
+  return {
+    customerId: customer.id,
+    name: name || 'Customer',
+    email: primaryEmail,
+    phone: primaryPhone,
+    merchantCurrency: customer.merchantCurrency,
+    merchantLabel: customer.merchantLabel || customer.merchantCurrency,
+    expiringCards,
+  };
+}
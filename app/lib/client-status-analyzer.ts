@@ -6,14 +6,21 @@
 import type { Customer } from './clover-client';
 
 export interface ClientStatus {
-  status: 'new-needs-payment' | 'expired-cards' | 'expiring-cards' | 'all-good' | 'inactive-old';
+  status: 'payment-failed' | 'new-needs-payment' | 'expired-cards' | 'expiring-cards' | 'all-good' | 'inactive-old';
   priority: 'critical' | 'high' | 'medium' | 'low' | 'none';
   daysOld: number;
   hasCards: boolean;
   requiresAction: boolean;
   actionMessage: string;
+  declineReason?: string;
 }
 
+// Purchase history from synced orders and payments
+type CustomerWithActivity = Customer & {
+  lastPurchaseTime?: number | null;
+  latestCardCharge?: { result: string; declineReason?: string | null } | null;
+};
+
 export interface CustomerWithStatus extends Customer {
   merchantCurrency: string;
   clientStatus: ClientStatus;
@@ -41,6 +48,13 @@ export class ClientStatusAnalyzer {
     return Math.floor(timeDiff / (1000 * 3600 * 24));
   }
 
+  /**
+   * Days since the customer last bought something, falling back to their creation date
+   */
+  private getDaysSinceActivity(customer: CustomerWithActivity, daysOld: number): number {
+    return customer.lastPurchaseTime ? this.getDaysSinceCreated(customer.lastPurchaseTime) : daysOld;
+  }
+
   /**
    * Check if customer has any cards
    */
@@ -58,25 +72,28 @@ export class ClientStatusAnalyzer {
   /**
    * Analyze client status based on age and payment methods
    */
-  analyzeClientStatus(customer: Customer, expirationAnalysis?: any[]): ClientStatus {
+  analyzeClientStatus(customer: CustomerWithActivity, expirationAnalysis?: any[]): ClientStatus {
     const createdTime = customer.createdTime || customer.customerSince;
     const hasCards = this.hasPaymentMethods(customer);
     
-    // If no creation date, assume old customer
-    if (!createdTime) {
+    // A declined charge on a stored card is the most urgent reason to reach out
+    if (customer.latestCardCharge?.result === 'FAIL') {
+      const declineReason = customer.latestCardCharge.declineReason || 'Declined';
       return {
-        status: hasCards ? 'all-good' : 'inactive-old',
-        priority: 'none',
-        daysOld: 999,
+        status: 'payment-failed',
+        priority: 'critical',
+        daysOld: createdTime ? this.getDaysSinceCreated(createdTime) : 999,
         hasCards,
-        requiresAction: false,
-        actionMessage: hasCards ? 'Customer is set up properly' : 'Old customer - no action needed'
+        requiresAction: true,
+        actionMessage: `URGENT: Last card-on-file charge failed (${declineReason})`,
+        declineReason
       };
     }
 
-    const daysOld = this.getDaysSinceCreated(createdTime);
+    // No creation date: treat as an old customer, judged by purchases alone
+    const daysOld = createdTime ? this.getDaysSinceCreated(createdTime) : 999;
 
-    // Check for expired/expiring cards first (highest priority)
+    // Check for expired/expiring cards next
     if (hasCards && expirationAnalysis) {
       const hasExpiredCards = expirationAnalysis.some(analysis => 
         analysis.expiration.status === 'expired'
@@ -120,8 +137,10 @@ export class ClientStatusAnalyzer {
       };
     }
 
-    // Old customers without payment methods (over 365 days)
-    if (!hasCards && daysOld > 365) {
+    const daysSinceActivity = this.getDaysSinceActivity(customer, daysOld);
+
+    // Customers without payment methods and no purchase in over a year
+    if (!hasCards && daysSinceActivity > 365) {
       return {
         status: 'inactive-old',
         priority: 'none',
@@ -132,7 +151,7 @@ export class ClientStatusAnalyzer {
       };
     }
 
-    // Customers without cards but in the middle range (181-365 days)
+    // Customers without cards who bought something in the last year
     if (!hasCards) {
       return {
         status: 'inactive-old',
@@ -159,7 +178,7 @@ export class ClientStatusAnalyzer {
    * Analyze multiple customers with their expiration data
    */
   analyzeCustomersWithStatus(
-    customersWithExpiration: Array<Customer & { merchantCurrency: string; expirationAnalysis?: any[] }>
+    customersWithExpiration: Array<CustomerWithActivity & { merchantCurrency: string; expirationAnalysis?: any[] }>
   ): CustomerWithStatus[] {
     return customersWithExpiration.map(customer => ({
       ...customer,
@@ -192,6 +211,7 @@ export class ClientStatusAnalyzer {
   generateStatusSummary(customers: CustomerWithStatus[]) {
     const total = customers.length;
     
+    const paymentFailed = customers.filter(c => c.clientStatus.status === 'payment-failed');
     const newNeedsPayment = customers.filter(c => c.clientStatus.status === 'new-needs-payment');
     const expiredCards = customers.filter(c => c.clientStatus.status === 'expired-cards');
     const expiringCards = customers.filter(c => c.clientStatus.status === 'expiring-cards');
@@ -202,6 +222,7 @@ export class ClientStatusAnalyzer {
 
     return {
       total,
+      paymentFailed: paymentFailed.length,
       newNeedsPayment: newNeedsPayment.length,
       expiredCards: expiredCards.length,
       expiringCards: expiringCards.length,
@@ -209,6 +230,7 @@ export class ClientStatusAnalyzer {
       inactiveOld: inactiveOld.length,
       requiresAction: requiresAction.length,
       breakdown: {
+        paymentFailed,
         newNeedsPayment,
         expiredCards,
         expiringCards,
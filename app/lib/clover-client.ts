@@ -2,13 +2,61 @@
  * Clover API Client with multi-merchant support for USD and CAD accounts
  */
 
-import { withCache } from './cache';
+import type { z } from 'zod';
+import { globalCache, withCache } from './cache';
+import {
+  CloverApiError,
+  CloverAuthError,
+  CloverConflictError,
+  CloverNetworkError,
+  CloverRateLimitError,
+  CloverSchemaError,
+  createCloverHttpError,
+  serializeCloverError,
+  type CloverErrorDetails,
+} from './clover-errors';
+import { getRateLimiter, waitFor, type TokenBucketRateLimiter } from './rate-limiter';
+import { getAppConfig } from './config';
+import { getFixtureMode, recordFixture, replayFixture } from './clover-fixtures';
+import {
+  CloverCustomerSchema,
+  CloverCustomersResponseSchema,
+  CloverMerchantProfileSchema,
+  CloverMerchantProfilesResponseSchema,
+  CloverOrderSchema,
+  CloverOrdersResponseSchema,
+  preserveUnknownFields,
+} from './clover-schemas';
+import { detectSchemaDrift, recordSchemaDrift } from './schema-drift';
+
+export type CloverRegion = 'na' | 'eu' | 'la';
 
 export interface CloverConfig {
   merchantId: string;
   apiToken: string;
   environment: 'sandbox' | 'production';
-  currency: 'USD' | 'CAD';
+  currency: string;        // ISO 4217 code of the merchant's billing currency
+  label?: string;          // Merchant label from the merchants config, used in logs and errors
+  region?: CloverRegion;   // Production host region (defaults to North America)
+  baseUrl?: string;        // Overrides environment/region, e.g. a local mock server
+  refreshAccessToken?: () => Promise<string>;  // OAuth merchants: new access token after a 401
+}
+
+// Production API hosts per Clover region; sandbox is a single global host
+export const CLOVER_REGION_HOSTS: Record<CloverRegion, string> = {
+  na: 'https://api.clover.com',
+  eu: 'https://api.eu.clover.com',
+  la: 'https://api.la.clover.com',
+};
+export const CLOVER_SANDBOX_HOST = 'https://apisandbox.dev.clover.com';
+
+/**
+ * API base URL for a merchant config
+ */
+export function resolveCloverBaseUrl(config: Pick<CloverConfig, 'environment' | 'region' | 'baseUrl'>): string {
+  if (config.baseUrl) return config.baseUrl.replace(/\/+$/, '');
+  if (config.environment === 'sandbox') return CLOVER_SANDBOX_HOST;
+  return CLOVER_REGION_HOSTS[config.region ?? 'na'];
 }
 
 export interface CustomerCard {
@@ -92,10 +140,8 @@ export interface Customer {
   // Metadata information
   metadata?: CustomerMetadata;
   
-  // Orders (not storing for now but part of API)
-  orders?: Array<{
-    id: string;
-  }>;
+  // Orders (only present when expanded)
+  orders?: Order[];
   
   // Additional fields
   createdTime?: number;
@@ -108,86 +154,561 @@ export interface Customer {
   merchantNote?: string;
 }
 
+export interface Payment {
+  id: string;
+  amount?: number;        // In cents
+  tipAmount?: number;
+  taxAmount?: number;
+  result?: string;        // SUCCESS, FAIL, VOIDED, ...
+  createdTime?: number;
+  modifiedTime?: number;
+  order?: {
+    id: string;
+  };
+  tender?: {
+    id?: string;
+    label?: string;
+    labelKey?: string;
+  };
+  cardTransaction?: {
+    cardType?: string;
+    first6?: string;
+    last4?: string;
+    type?: string;
+    entryType?: string;
+    state?: string;
+    authCode?: string;
+    referenceId?: string;
+    token?: string;
+    extra?: Record<string, string>;
+  };
+}
+
+export interface Order {
+  id: string;
+  currency?: string;
+  total?: number;         // In cents
+  state?: string;
+  paymentState?: string;
+  createdTime?: number;
+  modifiedTime?: number;
+  customers?: Array<{
+    id: string;
+  }>;
+  payments?: Payment[];
+}
+
 export interface CustomersResponse {
   elements: Customer[];
   href: string;
 }
 
+export interface Merchant {
+  id: string;
+  name?: string;
+  phoneNumber?: string;
+  address?: CustomerAddress;
+  properties?: {
+    defaultCurrency?: string;
+    timezone?: string;
+    [key: string]: any;
+  };
+  [key: string]: any;
+}
+
+export interface CustomerPageCheckpoint {
+  offset: number;   // Offset of the page to fetch when resuming
+  pageSize: number;
+}
+
+export interface IterateCustomersOptions {
+  expand?: string[];                     // Related fields to expand (defaults to all customer data)
+  pageSize?: number;                     // Customers per request (Clover max is 1000)
+  filter?: string | string[];            // Clover filter expressions, e.g. 'modifiedTime>=1700000000000'
+  modifiedSince?: number;                // Only records modified at or after this ms timestamp
+  checkpoint?: CustomerPageCheckpoint;   // Resume at a previously reported page (it is fetched again)
+  signal?: AbortSignal;                  // Cancel between or during requests
+  onPage?: (page: { pageNumber: number; count: number; checkpoint: CustomerPageCheckpoint }) => void;
+  onComplete?: () => void;               // Called once the last page was read (not when stopped on a repeated page)
+}
+
+export type IterateOrdersOptions = IterateCustomersOptions;
+
+interface RequestOptions {
+  signal?: AbortSignal;
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  body?: unknown;                        // Sent as JSON
+}
+
+export interface UpdateCustomerOptions {
+  expectedModifiedTime?: number;         // metadata.modifiedTime the caller last saw; mismatch raises CloverConflictError
+  signal?: AbortSignal;
+}
+
+// Metadata fields staff may edit from the app
+export type CustomerMetadataUpdate = Partial<Pick<CustomerMetadata, 'businessName' | 'note' | 'dobYear' | 'dobMonth' | 'dobDay'>>;
+
+export const DEFAULT_CUSTOMER_EXPAND = ['metadata', 'cards', 'addresses', 'emailAddresses', 'phoneNumbers'];
+export const DEFAULT_ORDER_EXPAND = ['customers', 'payments', 'payments.tender', 'payments.cardTransaction'];
+
+// Schemas used to validate each API resource (single element and list envelope)
+const RESOURCE_SCHEMAS = {
+  customers: { element: CloverCustomerSchema, list: CloverCustomersResponseSchema },
+  orders: { element: CloverOrderSchema, list: CloverOrdersResponseSchema },
+  merchants: { element: CloverMerchantProfileSchema, list: CloverMerchantProfilesResponseSchema },
+} as const;
+
+type CloverResource = keyof typeof RESOURCE_SCHEMAS;
+
+// strict: strip unknown fields and fail on mismatches; lenient: keep everything and only report
+export type SchemaValidationMode = 'strict' | 'lenient';
+
+export interface RetryStats {
+  retries: number;
+  budget: number;
+  budgetRemaining: number;
+}
+
+// Retries used per merchant ID, shared by every client in the process (sync, merchant check, scripts).
+// Kept on globalThis so dev-server module reloads don't reset the counts
+const globalRegistry = globalThis as typeof globalThis & {
+  __cloverRetryCounts?: Map<string, number>;
+};
+const retryCounts = (globalRegistry.__cloverRetryCounts ??= new Map());
+
 export class CloverClient {
   private baseUrl: string;
   private config: CloverConfig;
-  private lastRequestTime: number = 0;
-  private readonly rateLimitDelay: number;
+  private accessToken: string;
+  private readonly rateLimiter: TokenBucketRateLimiter;
+  private readonly maxRetries: number;
+  private readonly retryBaseDelay: number;
+  private readonly retryMaxDelay: number;
+  private readonly retryBudget: number;
+  private readonly requestTimeout: number;
+  private readonly schemaMode: SchemaValidationMode;
 
   constructor(config: CloverConfig) {
     this.config = config;
-    this.baseUrl = this.getBaseUrl(config.environment);
-    // Get rate limit delay from environment or default to 2000ms (2 seconds)
-    this.rateLimitDelay = parseInt(process.env.CLOVER_RATE_LIMIT_MS || '2000', 10);
+    this.accessToken = config.apiToken;
+    this.baseUrl = resolveCloverBaseUrl(config);
+    // Shared with every other client using the same merchant and token (kept across OAuth refreshes)
+    this.rateLimiter = getRateLimiter(config.merchantId, config.apiToken);
+    // Retry policy: attempts per request, backoff bounds and a per-merchant budget
+    const settings = getAppConfig().clover;
+    this.maxRetries = settings.maxRetries;
+    this.retryBaseDelay = settings.retryBaseMs;
+    this.retryMaxDelay = settings.retryMaxMs;
+    this.retryBudget = settings.retryBudget;
+    this.requestTimeout = settings.requestTimeoutMs;
+    this.schemaMode = settings.schemaMode;
   }
 
-  private getBaseUrl(environment: string): string {
-    return environment === 'sandbox' 
-      ? 'https://apisandbox.dev.clover.com'
-      : 'https://api.clover.com';
+  // Errors and logs name the merchant by label: several merchants can share a currency
+  private get merchantLabel(): string {
+    return this.config.label ?? this.config.currency;
   }
 
-  private async sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private get retryCount(): number {
+    return retryCounts.get(this.config.merchantId) ?? 0;
   }
 
-  private async enforceRateLimit(): Promise<void> {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-    
-    if (timeSinceLastRequest < this.rateLimitDelay) {
-      const waitTime = this.rateLimitDelay - timeSinceLastRequest;
-      console.log(`[RateLimit] Waiting ${waitTime}ms before next request to ${this.config.currency} API`);
-      await this.sleep(waitTime);
+  /**
+   * Retries used by this merchant since the last reset, across every client in the process
+   */
+  getRetryStats(): RetryStats {
+    return {
+      retries: this.retryCount,
+      budget: this.retryBudget,
+      budgetRemaining: Math.max(0, this.retryBudget - this.retryCount),
+    };
+  }
+
+  /**
+   * Reset the merchant's retry counter (e.g. at the start of a sync run)
+   */
+  resetRetryStats(): void {
+    retryCounts.delete(this.config.merchantId);
+  }
+
+  private canRetry(attempt: number): boolean {
+    return attempt < this.maxRetries && this.retryCount < this.retryBudget;
+  }
+
+  /**
+   * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+   */
+  private parseRetryAfter(header: string | null): number | null {
+    if (!header) return null;
+
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
     }
-    
-    this.lastRequestTime = Date.now();
+
+    const date = Date.parse(header);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+
+    return null;
   }
 
-  private async makeRequest<T>(endpoint: string): Promise<T> {
-    // Enforce rate limit before making the request
-    await this.enforceRateLimit();
-    
-    const url = `${this.baseUrl}${endpoint}`;
-    
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${this.config.apiToken}`,
-        'Accept': 'application/json',
-        'Content-Type': 'application/json',
-      },
-    });
+  /**
+   * Exponential backoff with jitter, unless Clover told us how long to wait
+   */
+  private getRetryDelay(attempt: number, error: CloverApiError): number {
+    if (error instanceof CloverRateLimitError && error.retryAfterMs !== undefined) {
+      return error.retryAfterMs;
+    }
+
+    const exponential = Math.min(this.retryMaxDelay, this.retryBaseDelay * 2 ** attempt);
+    // Equal jitter: keep half the delay, randomize the other half
+    return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+  }
+
+  private async waitBeforeRetry(attempt: number, error: CloverApiError, signal?: AbortSignal): Promise<void> {
+    const delay = this.getRetryDelay(attempt, error);
+    retryCounts.set(this.config.merchantId, this.retryCount + 1);
+    console.log(`[Retry] ${error.describe()} - retry ${attempt + 1}/${this.maxRetries} in ${delay}ms (${this.retryCount}/${this.retryBudget} budget used)`);
+    // Rejects with the abort reason, so a cancelled sync doesn't sit out the backoff
+    await waitFor(delay, signal);
+  }
+
+  private async fetchLive(endpoint: string, options: RequestOptions): Promise<Response> {
+    const timeout = AbortSignal.timeout(this.requestTimeout);
+
+    try {
+      return await fetch(`${this.baseUrl}${endpoint}`, {
+        method: options.method ?? 'GET',
+        headers: {
+          'Authorization': `Bearer ${this.accessToken}`,
+          'Accept': 'application/json',
+          'Content-Type': 'application/json',
+        },
+        body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+        signal: options.signal ? AbortSignal.any([options.signal, timeout]) : timeout,
+      });
+    } catch (error) {
+      // Cancelled by the caller: not a Clover failure, never retried
+      options.signal?.throwIfAborted();
+      // Network-level failure (DNS, connection reset, timeout)
+      const timedOut = error instanceof Error && error.name === 'TimeoutError';
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new CloverNetworkError(`Clover API network error: ${reason}`, {
+        endpoint,
+        merchantCurrency: this.merchantLabel,
+        cause: error,
+        timedOut,
+      });
+    }
+  }
+
+  private async fetchOnce(endpoint: string, options: RequestOptions = {}): Promise<Response> {
+    const context = { endpoint, merchantCurrency: this.merchantLabel };
+    const fixtureMode = getFixtureMode();
+    const fixtureRequest = { method: options.method ?? 'GET', endpoint, body: options.body };
+
+    // Replay is fully offline; a missing fixture is a plain Error, never retried
+    const response = fixtureMode === 'replay'
+      ? replayFixture(fixtureRequest)
+      : await this.fetchLive(endpoint, options);
+
+    if (fixtureMode === 'record') {
+      await recordFixture(fixtureRequest, response);
+    }
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`Clover API error: ${response.status} ${response.statusText} - ${errorText}`);
+      const retryAfterMs = this.parseRetryAfter(response.headers.get('Retry-After')) ?? undefined;
+      throw createCloverHttpError(response, errorText, { ...context, retryAfterMs });
     }
 
-    return response.json();
+    return response;
+  }
+
+  private async rateLimitedRequest<T>(endpoint: string, options: RequestOptions): Promise<T> {
+    const { release, waitedMs } = await this.rateLimiter.acquire(options.signal);
+    if (waitedMs > 0) {
+      console.log(`[RateLimit] Waited ${waitedMs}ms before request to ${this.merchantLabel} API`);
+    }
+
+    try {
+      options.signal?.throwIfAborted();
+      const response = await this.fetchOnce(endpoint, options);
+      return await response.json();
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * POST is not idempotent: only retry when Clover certainly did not process it
+   */
+  private shouldRetry(error: CloverApiError, options: RequestOptions): boolean {
+    if (!error.retryable) return false;
+    if (options.method === 'POST') return error instanceof CloverRateLimitError;
+    return true;
+  }
+
+  /**
+   * OAuth access tokens expire: swap in a refreshed one once per request on 401
+   */
+  private async tryRefreshAccessToken(error: unknown): Promise<boolean> {
+    if (!(error instanceof CloverAuthError) || error.status !== 401 || !this.config.refreshAccessToken) {
+      return false;
+    }
+
+    console.log(`[OAuth] ${this.merchantLabel} access token rejected, refreshing`);
+    this.accessToken = await this.config.refreshAccessToken();
+    return true;
+  }
+
+  private async makeRequest<T>(endpoint: string, options: RequestOptions = {}): Promise<T> {
+    let refreshed = false;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.rateLimitedRequest<T>(endpoint, options);
+      } catch (error) {
+        if (!refreshed && await this.tryRefreshAccessToken(error)) {
+          refreshed = true;
+          continue;
+        }
+        if (error instanceof CloverApiError && this.shouldRetry(error, options) && this.canRetry(attempt)) {
+          await this.waitBeforeRetry(attempt, error, options.signal);
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+
+  private schemaError(endpoint: string, message: string, issues: string[]): CloverSchemaError {
+    return new CloverSchemaError(message, {
+      endpoint,
+      merchantCurrency: this.merchantLabel,
+      issues,
+    });
+  }
+
+  private recordDrift(resource: CloverResource, schema: z.ZodTypeAny, raw: unknown): void {
+    recordSchemaDrift(
+      { merchantId: this.config.merchantId, merchantCurrency: this.config.currency, resource },
+      detectSchemaDrift(schema, raw)
+    );
+  }
+
+  /**
+   * Validate a single payload (customer, order, ...)
+   */
+  private validateElement<T>(resource: CloverResource, raw: unknown, endpoint: string): T {
+    const parsed = RESOURCE_SCHEMAS[resource].element.safeParse(raw);
+    if (parsed.success) {
+      const element = this.schemaMode === 'strict' ? parsed.data : preserveUnknownFields(parsed.data, raw);
+      return element as unknown as T;
+    }
+
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+    if (this.schemaMode === 'strict') {
+      throw this.schemaError(endpoint, `${resource} payload failed validation: ${issues.join('; ')}`, issues);
+    }
+    console.warn(`[CloverClient] ${this.merchantLabel} ${resource} ${(raw as any)?.id} failed validation, keeping raw payload: ${issues.join('; ')}`);
+    return raw as T;
+  }
+
+  /**
+   * Validate a list response and record any schema drift
+   */
+  private validateListResponse<T>(resource: CloverResource, raw: unknown, endpoint: string): T[] {
+    if (!raw || typeof raw !== 'object' || !Array.isArray((raw as any).elements)) {
+      throw this.schemaError(endpoint, `${resource} response has no elements array`, ['elements: expected array']);
+    }
+
+    this.recordDrift(resource, RESOURCE_SCHEMAS[resource].list, raw);
+    return ((raw as { elements: unknown[] }).elements).map(element => this.validateElement<T>(resource, element, endpoint));
+  }
+
+  private async requestList<T>(resource: CloverResource, endpoint: string, options: RequestOptions = {}): Promise<T[]> {
+    const response = await this.makeRequest<unknown>(endpoint, options);
+    return this.validateListResponse<T>(resource, response, endpoint);
+  }
+
+  private async requestCustomers(endpoint: string, options: RequestOptions = {}): Promise<Customer[]> {
+    return this.requestList<Customer>('customers', endpoint, options);
+  }
+
+  /**
+   * Page through a list endpoint (uncached).
+   *
+   * Stops on an empty or short page, or if Clover hands back the same page
+   * twice; only the former calls `onComplete`. Pass `checkpoint` (as reported
+   * to `onPage`) to resume mid-way.
+   */
+  private async *paginate<T extends { id: string }>(
+    resource: CloverResource,
+    path: string,
+    options: IterateCustomersOptions
+  ): AsyncGenerator<T, void, undefined> {
+    const pageSize = options.pageSize ?? options.checkpoint?.pageSize ?? 100;
+    const filters = options.filter === undefined ? [] : [options.filter].flat();
+    if (options.modifiedSince !== undefined) filters.push(`modifiedTime>=${options.modifiedSince}`);
+
+    let offset = options.checkpoint?.offset ?? 0;
+    let pageNumber = 0;
+    let previousPageKey: string | null = null;
+
+    while (true) {
+      options.signal?.throwIfAborted();
+
+      const params = new URLSearchParams();
+      if (options.expand && options.expand.length > 0) params.set('expand', options.expand.join(','));
+      filters.forEach(filter => params.append('filter', filter));
+      params.set('limit', String(pageSize));
+      params.set('offset', String(offset));
+
+      const elements = await this.requestList<T>(resource, `${path}?${params.toString()}`, { signal: options.signal });
+      if (elements.length === 0) {
+        options.onComplete?.();
+        return;
+      }
+
+      // Guard against an API that ignores offset and repeats a page forever
+      const pageKey = elements.map(element => element.id).join(',');
+      if (pageKey === previousPageKey) {
+        console.warn(`[CloverClient] ${this.merchantLabel} returned the same ${resource} page twice at offset ${offset}, stopping`);
+        return;
+      }
+      previousPageKey = pageKey;
+
+      // Reported before the page is consumed, so the checkpoint points at the page itself
+      pageNumber++;
+      options.onPage?.({ pageNumber, count: elements.length, checkpoint: { offset, pageSize } });
+
+      for (const element of elements) {
+        options.signal?.throwIfAborted();
+        yield element;
+      }
+      offset += elements.length;
+
+      // If we got less than the limit, we've reached the end
+      if (elements.length < pageSize) {
+        options.onComplete?.();
+        return;
+      }
+    }
   }
 
   /**
    * Get all customers for this merchant
    */
   async getCustomers(): Promise<Customer[]> {
-    const response = await this.makeRequest<CustomersResponse>(
-      `/v3/merchants/${this.config.merchantId}/customers`
-    );
-    return response.elements || [];
+    return this.requestCustomers(`/v3/merchants/${this.config.merchantId}/customers`);
+  }
+
+  /**
+   * Get the merchant's profile: name, address, phone, timezone and default currency
+   */
+  async getMerchantProfile(): Promise<Merchant> {
+    const endpoint = `/v3/merchants/${this.config.merchantId}?expand=${encodeURIComponent('address,properties')}`;
+    const response = await this.makeRequest<unknown>(endpoint);
+
+    this.recordDrift('merchants', CloverMerchantProfileSchema, response);
+    return this.validateElement<Merchant>('merchants', response, endpoint);
   }
 
   /**
-   * Get a specific customer by ID
+   * One GET under /v3/merchants/{mId}, for connectivity checks
+   *
+   * No retries, token refresh or schema validation: the caller sees exactly
+   * what Clover answered, headers included. Errors are thrown as usual.
    */
-  async getCustomer(customerId: string): Promise<Customer> {
-    return this.makeRequest<Customer>(
-      `/v3/merchants/${this.config.merchantId}/customers/${customerId}`
+  async probe(path: string = ''): Promise<{ body: unknown; headers: Headers }> {
+    const { release } = await this.rateLimiter.acquire();
+    try {
+      const response = await this.fetchOnce(`/v3/merchants/${this.config.merchantId}${path}`);
+      return { body: await response.json(), headers: response.headers };
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Get a specific customer by ID, optionally expanding related data (cards, metadata, ...)
+   */
+  async getCustomer(customerId: string, expand: string[] = []): Promise<Customer> {
+    const query = expand.length > 0 ? `?expand=${encodeURIComponent(expand.join(','))}` : '';
+    const endpoint = `/v3/merchants/${this.config.merchantId}/customers/${customerId}${query}`;
+    const response = await this.makeRequest<unknown>(endpoint);
+
+    this.recordDrift('customers', CloverCustomerSchema, response);
+    return this.validateElement<Customer>('customers', response, endpoint);
+  }
+
+  /**
+   * Raise a CloverConflictError if the customer's metadata changed since the caller loaded it
+   */
+  private assertMetadataUnchanged(customer: Customer, expectedModifiedTime: number | undefined, endpoint: string): void {
+    const currentModifiedTime = customer.metadata?.modifiedTime;
+    if (expectedModifiedTime === undefined || currentModifiedTime === undefined) return;
+    if (currentModifiedTime !== expectedModifiedTime) {
+      throw new CloverConflictError(
+        `Customer ${customer.id} metadata was modified at ${currentModifiedTime}, expected ${expectedModifiedTime}`,
+        { endpoint, merchantCurrency: this.merchantLabel, status: 409, expectedModifiedTime, currentModifiedTime }
+      );
+    }
+  }
+
+  /**
+   * Update a customer's metadata (note, business name, birthday) in Clover
+   */
+  async updateCustomerMetadata(
+    customerId: string,
+    changes: CustomerMetadataUpdate,
+    options: UpdateCustomerOptions = {}
+  ): Promise<CustomerMetadata> {
+    const endpoint = `/v3/merchants/${this.config.merchantId}/customers/${customerId}`;
+
+    if (options.expectedModifiedTime !== undefined) {
+      const current = await this.getCustomer(customerId, ['metadata']);
+      this.assertMetadataUnchanged(current, options.expectedModifiedTime, endpoint);
+    }
+
+    const response = await this.makeRequest<unknown>(`${endpoint}?expand=metadata`, {
+      method: 'POST',
+      body: { metadata: changes },
+      signal: options.signal,
+    });
+    const updated = this.validateElement<Customer>('customers', response, endpoint);
+
+    // Drop cached customer lists for this merchant so the change shows up
+    for (const { key } of globalCache.getStats().cacheKeys) {
+      if (key.startsWith('customers_') && key.includes(this.config.merchantId)) globalCache.delete(key);
+    }
+    return { ...changes, ...updated.metadata };
+  }
+
+  /**
+   * Replace a customer's note, or append a line to the existing one
+   */
+  async updateCustomerNote(
+    customerId: string,
+    note: string,
+    options: UpdateCustomerOptions & { append?: boolean } = {}
+  ): Promise<CustomerMetadata> {
+    if (!options.append) {
+      return this.updateCustomerMetadata(customerId, { note }, options);
+    }
+
+    // Appending needs the current note, so check for conflicts on the same read
+    const endpoint = `/v3/merchants/${this.config.merchantId}/customers/${customerId}`;
+    const current = await this.getCustomer(customerId, ['metadata']);
+    this.assertMetadataUnchanged(current, options.expectedModifiedTime, endpoint);
+
+    const existing = current.metadata?.note?.trim();
+    return this.updateCustomerMetadata(
+      customerId,
+      { note: existing ? `${existing}\n${note}` : note },
+      { signal: options.signal }
     );
   }
 
@@ -200,10 +721,9 @@ export class CloverClient {
     return withCache(cacheKey, async () => {
       // URL encode the expand parameter properly for metadata, addresses, etc.
       const expandFields = encodeURIComponent('metadata,cards,addresses,emailAddresses,phoneNumbers');
-      const response = await this.makeRequest<CustomersResponse>(
+      return this.requestCustomers(
         `/v3/merchants/${this.config.merchantId}/customers?expand=${expandFields}`
       );
-      return response.elements || [];
     }, 24 * 60 * 60 * 1000); // Cache for 24 hours during development
   }
 
@@ -216,23 +736,65 @@ export class CloverClient {
     
     return withCache(cacheKey, async () => {
       const encodedExpandFields = encodeURIComponent(expandFields);
-      const response = await this.makeRequest<CustomersResponse>(
+      return this.requestCustomers(
         `/v3/merchants/${this.config.merchantId}/customers?expand=${encodedExpandFields}&limit=${limit}&offset=${offset}`
       );
-      return response.elements || [];
     }, 24 * 60 * 60 * 1000); // Cache for 24 hours during development - full params cached
   }
+
+  /**
+   * Stream every customer page by page (uncached)
+   */
+  iterateCustomers(options: IterateCustomersOptions = {}): AsyncGenerator<Customer, void, undefined> {
+    return this.paginate<Customer>('customers', `/v3/merchants/${this.config.merchantId}/customers`, {
+      ...options,
+      expand: options.expand ?? DEFAULT_CUSTOMER_EXPAND,
+    });
+  }
+
+  /**
+   * Stream every order with its payments and linked customers (uncached)
+   */
+  iterateOrders(options: IterateOrdersOptions = {}): AsyncGenerator<Order, void, undefined> {
+    return this.paginate<Order>('orders', `/v3/merchants/${this.config.merchantId}/orders`, {
+      ...options,
+      expand: options.expand ?? DEFAULT_ORDER_EXPAND,
+    });
+  }
+
+  /**
+   * Get every order placed by one customer
+   */
+  async getCustomerOrders(customerId: string): Promise<Order[]> {
+    const orders: Order[] = [];
+    for await (const order of this.iterateOrders({ filter: `customer.id=${customerId}` })) {
+      orders.push(order);
+    }
+    return orders;
+  }
+}
+
+/**
+ * Per-merchant failure reported by MultiMerchantCloverClient
+ */
+export interface MerchantError extends CloverErrorDetails {
+  merchantId: string;
+  label: string;
+  currency: string;
+  error: string;
 }
 
+export type CustomerWithMerchant = Customer & { merchantId: string; merchantCurrency: string; merchantLabel: string };
+
 /**
  * Multi-merchant client manager
  */
 export class MultiMerchantCloverClient {
-  private clients: Map<string, CloverClient> = new Map();
+  private clients: Map<string, { config: CloverConfig; client: CloverClient }> = new Map();
 
   constructor(configs: CloverConfig[]) {
     configs.forEach(config => {
-      this.clients.set(config.currency, new CloverClient(config));
+      this.clients.set(config.merchantId, { config, client: new CloverClient(config) });
     });
   }
 
@@ -240,31 +802,32 @@ export class MultiMerchantCloverClient {
    * Get customers from all configured merchants with error tracking
    */
   async getAllCustomersWithErrors(): Promise<{
-    customers: Array<Customer & { merchantCurrency: string }>;
-    errors: Array<{ currency: string; error: string; status?: number }>;
+    customers: CustomerWithMerchant[];
+    errors: MerchantError[];
   }> {
-    const allCustomers: Array<Customer & { merchantCurrency: string }> = [];
-    const errors: Array<{ currency: string; error: string; status?: number }> = [];
+    const allCustomers: CustomerWithMerchant[] = [];
+    const errors: MerchantError[] = [];
 
-    for (const [currency, client] of this.clients.entries()) {
+    for (const [merchantId, { config, client }] of this.clients.entries()) {
+      const label = config.label ?? config.currency;
       try {
         const customers = await client.getCustomersWithCards();
         
-        const customersWithCurrency = customers.map(customer => ({
+        const customersWithMerchant = customers.map(customer => ({
           ...customer,
-          merchantCurrency: currency
+          merchantId,
+          merchantCurrency: config.currency,
+          merchantLabel: label
         }));
-        allCustomers.push(...customersWithCurrency);
+        allCustomers.push(...customersWithMerchant);
       } catch (error) {
-        // Extract status code if available
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        const statusMatch = errorMessage.match(/(\d{3})/);
-        const status = statusMatch ? parseInt(statusMatch[1], 10) : undefined;
-        
+        const details = serializeCloverError(error, label);
         errors.push({
-          currency,
-          error: errorMessage,
-          status
+          ...details,
+          merchantId,
+          label,
+          currency: config.currency,
+          error: details.message
         });
       }
     }
@@ -274,19 +837,19 @@ export class MultiMerchantCloverClient {
   /**
    * Get customers from all configured merchants (legacy method)
    */
-  async getAllCustomers(): Promise<Array<Customer & { merchantCurrency: string }>> {
+  async getAllCustomers(): Promise<CustomerWithMerchant[]> {
     const result = await this.getAllCustomersWithErrors();
     return result.customers;
   }
 
   /**
-   * Get customers by currency
+   * Get customers of one merchant
    */
-  async getCustomersByCurrency(currency: 'USD' | 'CAD'): Promise<Customer[]> {
-    const client = this.clients.get(currency);
-    if (!client) {
-      throw new Error(`No client configured for currency: ${currency}`);
+  async getCustomersByMerchant(merchantId: string): Promise<Customer[]> {
+    const entry = this.clients.get(merchantId);
+    if (!entry) {
+      throw new Error(`No client configured for merchant: ${merchantId}`);
     }
-    return client.getCustomersWithCards();
+    return entry.client.getCustomersWithCards();
   }
-}
\ No newline at end of file
+}
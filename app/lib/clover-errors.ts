@@ -0,0 +1,224 @@
+/**
+ * Typed errors raised by the Clover API client
+ */
+
+export type CloverErrorKind =
+  | 'auth'
+  | 'rate-limited'
+  | 'not-found'
+  | 'conflict'
+  | 'server'
+  | 'network'
+  | 'schema'
+  | 'unknown';
+
+export interface CloverErrorContext {
+  endpoint: string;
+  merchantCurrency: string;
+  status?: number;
+  responseBody?: string;
+  cause?: unknown;
+}
+
+/**
+ * Plain-object form of a Clover error, safe to return from loaders and APIs
+ */
+export interface CloverErrorDetails {
+  kind: CloverErrorKind;
+  status?: number;
+  endpoint?: string;
+  merchantCurrency?: string;
+  responseBody?: string;
+  message: string;
+  description: string;
+}
+
+// Keep stored/serialized response bodies to a reasonable size
+const MAX_RESPONSE_BODY_LENGTH = 2000;
+
+export class CloverApiError extends Error {
+  readonly kind: CloverErrorKind = 'unknown';
+  readonly status?: number;
+  readonly endpoint: string;
+  readonly merchantCurrency: string;
+  readonly responseBody?: string;
+
+  constructor(message: string, context: CloverErrorContext) {
+    super(message, context.cause !== undefined ? { cause: context.cause } : undefined);
+    this.name = new.target.name;
+    this.status = context.status;
+    this.endpoint = context.endpoint;
+    this.merchantCurrency = context.merchantCurrency;
+    this.responseBody = context.responseBody?.slice(0, MAX_RESPONSE_BODY_LENGTH);
+  }
+
+  /**
+   * Whether the request may succeed if simply tried again
+   */
+  get retryable(): boolean {
+    return false;
+  }
+
+  /**
+   * Short, user-facing explanation of what went wrong
+   */
+  describe(): string {
+    return `Clover request failed for ${this.merchantCurrency}${this.status ? ` (${this.status})` : ''}`;
+  }
+
+  toJSON(): CloverErrorDetails {
+    return {
+      kind: this.kind,
+      status: this.status,
+      endpoint: this.endpoint,
+      merchantCurrency: this.merchantCurrency,
+      responseBody: this.responseBody,
+      message: this.message,
+      description: this.describe(),
+    };
+  }
+}
+
+export class CloverAuthError extends CloverApiError {
+  readonly kind = 'auth' as const;
+
+  describe(): string {
+    return this.status === 403
+      ? `API token lacks permission for ${this.merchantCurrency}`
+      : `API token expired or invalid for ${this.merchantCurrency}`;
+  }
+}
+
+export class CloverRateLimitError extends CloverApiError {
+  readonly kind = 'rate-limited' as const;
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, context: CloverErrorContext & { retryAfterMs?: number }) {
+    super(message, context);
+    this.retryAfterMs = context.retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+
+  describe(): string {
+    return `Rate limited by Clover for ${this.merchantCurrency}`;
+  }
+}
+
+export class CloverNotFoundError extends CloverApiError {
+  readonly kind = 'not-found' as const;
+
+  describe(): string {
+    return `Resource not found for ${this.merchantCurrency} (check the merchant ID)`;
+  }
+}
+
+export class CloverConflictError extends CloverApiError {
+  readonly kind = 'conflict' as const;
+  readonly expectedModifiedTime?: number;
+  readonly currentModifiedTime?: number;
+
+  constructor(message: string, context: CloverErrorContext & { expectedModifiedTime?: number; currentModifiedTime?: number }) {
+    super(message, context);
+    this.expectedModifiedTime = context.expectedModifiedTime;
+    this.currentModifiedTime = context.currentModifiedTime;
+  }
+
+  describe(): string {
+    return `Record was changed in Clover since it was loaded for ${this.merchantCurrency}`;
+  }
+}
+
+export class CloverServerError extends CloverApiError {
+  readonly kind = 'server' as const;
+
+  get retryable(): boolean {
+    return true;
+  }
+
+  describe(): string {
+    return `Clover server error for ${this.merchantCurrency}${this.status ? ` (${this.status})` : ''}`;
+  }
+}
+
+export class CloverNetworkError extends CloverApiError {
+  readonly kind = 'network' as const;
+  readonly timedOut: boolean;
+
+  constructor(message: string, context: CloverErrorContext & { timedOut?: boolean }) {
+    super(message, context);
+    this.timedOut = context.timedOut ?? false;
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+
+  describe(): string {
+    return this.timedOut
+      ? `Request to Clover timed out for ${this.merchantCurrency}`
+      : `Could not reach Clover for ${this.merchantCurrency}`;
+  }
+}
+
+export class CloverSchemaError extends CloverApiError {
+  readonly kind = 'schema' as const;
+  readonly issues: string[];
+
+  constructor(message: string, context: CloverErrorContext & { issues?: string[] }) {
+    super(message, context);
+    this.issues = context.issues ?? [];
+  }
+
+  describe(): string {
+    return `Unexpected data format from Clover for ${this.merchantCurrency}`;
+  }
+}
+
+/**
+ * Build the right error class for a non-2xx Clover response
+ */
+export function createCloverHttpError(
+  response: { status: number; statusText: string },
+  responseBody: string,
+  context: { endpoint: string; merchantCurrency: string; retryAfterMs?: number }
+): CloverApiError {
+  const message = `Clover API error: ${response.status} ${response.statusText} - ${responseBody}`;
+  const errorContext = { ...context, status: response.status, responseBody };
+
+  if (response.status === 401 || response.status === 403) {
+    return new CloverAuthError(message, errorContext);
+  }
+  if (response.status === 404) {
+    return new CloverNotFoundError(message, errorContext);
+  }
+  if (response.status === 409) {
+    return new CloverConflictError(message, errorContext);
+  }
+  if (response.status === 429) {
+    return new CloverRateLimitError(message, errorContext);
+  }
+  if (response.status >= 500) {
+    return new CloverServerError(message, errorContext);
+  }
+  return new CloverApiError(message, errorContext);
+}
+
+/**
+ * Serialize any thrown value into CloverErrorDetails
+ */
+export function serializeCloverError(error: unknown, merchantCurrency?: string): CloverErrorDetails {
+  if (error instanceof CloverApiError) {
+    return error.toJSON();
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return {
+    kind: 'unknown',
+    merchantCurrency,
+    message,
+    description: message,
+  };
+}
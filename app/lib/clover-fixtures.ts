@@ -0,0 +1,150 @@
+/**
+ * Record/replay of Clover API traffic for offline runs
+ *
+ * CLOVER_FIXTURE_MODE=record saves every CloverClient request/response pair
+ * (tokens scrubbed) under CLOVER_FIXTURE_DIR; CLOVER_FIXTURE_MODE=replay serves
+ * them back without touching the network. Sync, dashboard analysis and reports
+ * can then run against real payload shapes with no Clover access.
+ */
+
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { getAppConfig } from './config';
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+export interface FixtureRequest {
+  method: string;
+  endpoint: string;   // Path and query, e.g. /v3/merchants/{mId}/customers?limit=100
+  body?: unknown;
+}
+
+interface FixtureFile {
+  request: FixtureRequest;
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: unknown;
+  };
+  recordedAt: string;
+}
+
+const SCRUBBED = 'SCRUBBED';
+// Any field whose name mentions a token (card tokens, OAuth tokens, API tokens)
+const SECRET_KEY_PATTERN = /token|secret|password|authorization/i;
+// Only headers the client actually reads are kept
+const KEPT_HEADERS = ['content-type', 'retry-after'];
+
+export function getFixtureMode(): FixtureMode {
+  return getAppConfig().clover.fixtureMode;
+}
+
+function getFixtureDir(): string {
+  return getAppConfig().clover.fixtureDir;
+}
+
+// Time filters the sync derives from the clock (incremental high-water mark, orders lookback)
+const TIME_FILTER_PATTERN = /^(modifiedTime|createdTime)(>=|>|<=|<)\d+$/;
+
+/**
+ * The endpoint with time filter values blanked, so a recording still matches on a later run
+ */
+function normalizeEndpoint(endpoint: string): string {
+  const [pathname, query] = endpoint.split('?');
+  if (!query) return endpoint;
+
+  const params = new URLSearchParams(query);
+  const normalized = new URLSearchParams();
+  let changed = false;
+  for (const [name, value] of params) {
+    const next = name === 'filter' ? value.replace(TIME_FILTER_PATTERN, '$1$2*') : value;
+    changed ||= next !== value;
+    normalized.append(name, next);
+  }
+  // Untouched endpoints keep their exact form, so existing recordings still match
+  return changed ? `${pathname}?${normalized.toString()}` : endpoint;
+}
+
+/**
+ * Stable file name per request: readable prefix plus a hash of method, endpoint and body
+ */
+function getFixturePath(request: FixtureRequest): string {
+  const hash = createHash('sha256')
+    .update(`${request.method} ${normalizeEndpoint(request.endpoint)} ${JSON.stringify(request.body ?? null)}`)
+    .digest('hex')
+    .slice(0, 12);
+  const readable = `${request.method}-${request.endpoint.split('?')[0]}`
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, 80);
+  return path.join(getFixtureDir(), `${readable}-${hash}.json`);
+}
+
+/**
+ * Replace secret-looking string values anywhere in a JSON value
+ */
+export function scrubSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(scrubSecrets);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => [
+        key,
+        SECRET_KEY_PATTERN.test(key) && typeof child === 'string' ? SCRUBBED : scrubSecrets(child),
+      ])
+    );
+  }
+  return value;
+}
+
+/**
+ * In replay mode, the recorded response for a request; throws when none was recorded
+ */
+export function replayFixture(request: FixtureRequest): Response {
+  const file = getFixturePath(request);
+  if (!fs.existsSync(file)) {
+    throw new Error(`No Clover fixture recorded for ${request.method} ${request.endpoint} (expected ${file})`);
+  }
+
+  const fixture = JSON.parse(fs.readFileSync(file, 'utf-8')) as FixtureFile;
+  const body = typeof fixture.response.body === 'string'
+    ? fixture.response.body
+    : JSON.stringify(fixture.response.body);
+  return new Response(body, {
+    status: fixture.response.status,
+    statusText: fixture.response.statusText,
+    headers: fixture.response.headers,
+  });
+}
+
+/**
+ * In record mode, save a sanitized copy of a response (the caller keeps the original)
+ */
+export async function recordFixture(request: FixtureRequest, response: Response): Promise<void> {
+  const text = await response.clone().text();
+  let body: unknown = text;
+  try {
+    body = scrubSecrets(JSON.parse(text));
+  } catch {
+    // Non-JSON error bodies are stored as plain text
+  }
+
+  const headers: Record<string, string> = {};
+  for (const name of KEPT_HEADERS) {
+    const value = response.headers.get(name);
+    if (value) headers[name] = value;
+  }
+
+  const fixture: FixtureFile = {
+    request: { ...request, body: scrubSecrets(request.body) },
+    response: { status: response.status, statusText: response.statusText, headers, body },
+    recordedAt: new Date().toISOString(),
+  };
+
+  const file = getFixturePath(request);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(fixture, null, 2));
+}
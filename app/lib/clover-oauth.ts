@@ -0,0 +1,356 @@
+/**
+ * Clover OAuth 2 authorization-code flow with refresh-token storage
+ *
+ * Merchants connect through /api/oauth/clover/connect; the callback exchanges
+ * the code for an access/refresh token pair stored encrypted in oauth_tokens.
+ * CloverClient calls back into refreshOAuthToken when Clover answers 401.
+ */
+
+import { randomBytes, randomUUID } from 'crypto';
+import { z } from 'zod';
+import { db } from './db';
+import { protectSecret, revealSecret } from './secrets';
+import { getAppConfig, type MerchantSettings } from './config';
+import { getMerchantSettings } from './merchant-settings';
+import { resolveCloverBaseUrl, type CloverConfig, type CloverRegion } from './clover-client';
+import { CloverNetworkError, createCloverHttpError } from './clover-errors';
+
+// Web (dashboard) hosts that serve the authorize page; the token endpoints live on the API host
+const CLOVER_AUTHORIZE_HOSTS: Record<CloverRegion, string> = {
+  na: 'https://www.clover.com',
+  eu: 'https://www.eu.clover.com',
+  la: 'https://www.la.clover.com',
+};
+const CLOVER_SANDBOX_AUTHORIZE_HOST = 'https://sandbox.dev.clover.com';
+
+// Authorization requests older than this are rejected at the callback
+const STATE_TTL_SECONDS = 10 * 60;
+
+const CloverTokenResponseSchema = z.object({
+  access_token: z.string().min(1),
+  access_token_expiration: z.number().optional(),   // Unix seconds
+  refresh_token: z.string().min(1).optional(),
+  refresh_token_expiration: z.number().optional(),  // Unix seconds
+});
+
+type CloverTokenResponse = z.infer<typeof CloverTokenResponseSchema>;
+
+export interface CloverOAuthSettings {
+  appId: string;
+  appSecret: string;
+  redirectUri: string;
+}
+
+export interface OAuthTokenStatus {
+  merchantId: string;
+  merchantCurrency: string;
+  hasRefreshToken: boolean;
+  accessTokenExpiresAt: number | null;
+  refreshTokenExpiresAt: number | null;
+  connectedAt: number;
+  refreshedAt: number | null;
+}
+
+interface OAuthTokenRow {
+  merchantId: string;
+  merchantCurrency: string;
+  accessToken: string;
+  refreshToken: string | null;
+  accessTokenExpiresAt: number | null;
+  refreshTokenExpiresAt: number | null;
+  connectedAt: number;
+  refreshedAt: number | null;
+  refreshOwner: string | null;
+  refreshLeaseExpiresAt: number | null;
+}
+
+/**
+ * OAuth app credentials, or null when the app is not set up (API tokens from .env only)
+ */
+export function getOAuthSettings(): CloverOAuthSettings | null {
+  const { appId, appSecret, redirectUri } = getAppConfig().oauth;
+  if (!appId || !appSecret) return null;
+
+  return { appId, appSecret: revealSecret(appSecret), redirectUri };
+}
+
+function requireOAuthSettings(): CloverOAuthSettings {
+  const settings = getOAuthSettings();
+  if (!settings) {
+    throw new Error('Clover OAuth is not configured: set CLOVER_APP_ID and CLOVER_APP_SECRET');
+  }
+  return settings;
+}
+
+function getAuthorizeUrl(merchant: MerchantSettings): string {
+  const { authorizeUrl } = getAppConfig().oauth;
+  if (authorizeUrl) return authorizeUrl;
+
+  const host = merchant.environment === 'sandbox'
+    ? CLOVER_SANDBOX_AUTHORIZE_HOST
+    : CLOVER_AUTHORIZE_HOSTS[merchant.region];
+  return `${host}/oauth/v2/authorize`;
+}
+
+function requireMerchant(merchantId: string): MerchantSettings {
+  const merchant = getMerchantSettings(merchantId);
+  if (!merchant) {
+    throw new Error(`Merchant ${merchantId} is not in the merchants config`);
+  }
+  return merchant;
+}
+
+/**
+ * URL of Clover's authorize page for a merchant, with a one-time state value
+ */
+export function createAuthorizationUrl(merchantId: string): string {
+  const settings = requireOAuthSettings();
+  const merchant = requireMerchant(merchantId);
+  const state = randomBytes(16).toString('hex');
+
+  db.prepare('DELETE FROM oauth_states WHERE createdAt < unixepoch() - ?').run(STATE_TTL_SECONDS);
+  db.prepare('INSERT INTO oauth_states (state, merchantId, merchantCurrency) VALUES (?, ?, ?)')
+    .run(state, merchant.id, merchant.currency);
+
+  const url = new URL(getAuthorizeUrl(merchant));
+  url.searchParams.set('client_id', settings.appId);
+  url.searchParams.set('redirect_uri', settings.redirectUri);
+  url.searchParams.set('state', state);
+  url.searchParams.set('merchant_id', merchant.id);
+
+  return url.toString();
+}
+
+/**
+ * Validate and consume a state value; returns the merchant it was issued for
+ */
+function consumeState(state: string): MerchantSettings {
+  const row = db.prepare(`
+    SELECT merchantId FROM oauth_states
+    WHERE state = ? AND createdAt >= unixepoch() - ?
+  `).get(state, STATE_TTL_SECONDS) as { merchantId: string | null } | undefined;
+
+  db.prepare('DELETE FROM oauth_states WHERE state = ?').run(state);
+
+  if (!row?.merchantId) {
+    throw new Error('Invalid or expired OAuth state; start the connection again from the admin page');
+  }
+  return requireMerchant(row.merchantId);
+}
+
+async function postTokenEndpoint(
+  merchant: MerchantSettings,
+  endpoint: '/oauth/v2/token' | '/oauth/v2/refresh',
+  body: Record<string, string>
+): Promise<CloverTokenResponse> {
+  const url = `${resolveCloverBaseUrl(merchant)}${endpoint}`;
+  const context = { endpoint, merchantCurrency: merchant.label };
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Accept': 'application/json', 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(getAppConfig().clover.requestTimeoutMs),
+    });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new CloverNetworkError(`Clover OAuth network error: ${reason}`, { ...context, cause: error });
+  }
+
+  if (!response.ok) {
+    throw createCloverHttpError(response, await response.text(), context);
+  }
+
+  const parsed = CloverTokenResponseSchema.safeParse(await response.json());
+  if (!parsed.success) {
+    throw new Error(`Unexpected Clover token response: ${parsed.error.issues.map(issue => issue.message).join(', ')}`);
+  }
+  return parsed.data;
+}
+
+function saveTokens(merchantId: string, currency: string, tokens: CloverTokenResponse, refreshed: boolean): void {
+  db.prepare(`
+    INSERT INTO oauth_tokens (
+      merchantId, merchantCurrency, accessToken, refreshToken,
+      accessTokenExpiresAt, refreshTokenExpiresAt, connectedAt, refreshedAt
+    ) VALUES (?, ?, ?, ?, ?, ?, unixepoch(), ?)
+    ON CONFLICT(merchantId) DO UPDATE SET
+      merchantCurrency = excluded.merchantCurrency,
+      accessToken = excluded.accessToken,
+      refreshToken = COALESCE(excluded.refreshToken, oauth_tokens.refreshToken),
+      accessTokenExpiresAt = excluded.accessTokenExpiresAt,
+      refreshTokenExpiresAt = COALESCE(excluded.refreshTokenExpiresAt, oauth_tokens.refreshTokenExpiresAt),
+      connectedAt = CASE WHEN ? THEN oauth_tokens.connectedAt ELSE excluded.connectedAt END,
+      refreshedAt = excluded.refreshedAt
+  `).run(
+    merchantId,
+    currency,
+    protectSecret(tokens.access_token),
+    tokens.refresh_token ? protectSecret(tokens.refresh_token) : null,
+    tokens.access_token_expiration ?? null,
+    tokens.refresh_token_expiration ?? null,
+    refreshed ? Math.floor(Date.now() / 1000) : null,
+    refreshed ? 1 : 0
+  );
+}
+
+function getTokenRow(merchantId: string): OAuthTokenRow | undefined {
+  return db.prepare('SELECT * FROM oauth_tokens WHERE merchantId = ?').get(merchantId) as OAuthTokenRow | undefined;
+}
+
+/**
+ * Handle the OAuth callback: check state, exchange the code and store the tokens
+ */
+export async function completeAuthorization(params: {
+  code: string;
+  state: string;
+  merchantId: string;
+}): Promise<OAuthTokenStatus> {
+  const settings = requireOAuthSettings();
+  const merchant = consumeState(params.state);
+
+  if (merchant.id !== params.merchantId) {
+    throw new Error(`Clover authorized merchant ${params.merchantId}, but the connection was started for ${merchant.label} (${merchant.id})`);
+  }
+
+  const tokens = await postTokenEndpoint(merchant, '/oauth/v2/token', {
+    client_id: settings.appId,
+    client_secret: settings.appSecret,
+    code: params.code,
+  });
+  saveTokens(merchant.id, merchant.currency, tokens, false);
+  console.log(`[OAuth] Connected ${merchant.label} (${merchant.id})`);
+
+  return getOAuthTokenStatus(params.merchantId)!;
+}
+
+// How often a process waiting on another one's refresh checks the token row
+const REFRESH_POLL_MS = 250;
+
+// One refresh per merchant at a time: Clover rotates the refresh token on every use.
+// Within a process callers share the promise; across processes the lease on the token row decides.
+const refreshesInFlight = new Map<string, Promise<string>>();
+
+type RefreshClaim = { row: OAuthTokenRow } | { accessToken: string };
+
+/**
+ * Take the refresh lease on the token row, or wait for the process holding it
+ * and return the access token it saved
+ */
+async function claimRefresh(merchantId: string, owner: string): Promise<RefreshClaim> {
+  // The refresh is one token request, so the lease outlives its timeout
+  const leaseMs = getAppConfig().clover.requestTimeoutMs + 5000;
+  let waitedOnToken: string | null = null;   // Access token when another process held the lease
+
+  while (true) {
+    // IMMEDIATE: the check and the write happen under SQLite's write lock, so two processes can't both win
+    const claim = db.transaction((): RefreshClaim | null => {
+      const row = getTokenRow(merchantId);
+      if (!row?.refreshToken) {
+        throw new Error(`No Clover refresh token stored for merchant ${merchantId}; reconnect it from the admin page`);
+      }
+      if (waitedOnToken !== null && row.accessToken !== waitedOnToken) {
+        return { accessToken: revealSecret(row.accessToken) };
+      }
+      if (row.refreshOwner && (row.refreshLeaseExpiresAt ?? 0) > Date.now()) {
+        if (waitedOnToken === null) {
+          console.log(`[OAuth] Another process is refreshing the token for ${merchantId}, waiting for it`);
+          waitedOnToken = row.accessToken;
+        }
+        return null;
+      }
+      // Free, expired, or released by a process that failed to refresh
+      db.prepare(`
+        UPDATE oauth_tokens SET refreshOwner = ?, refreshLeaseExpiresAt = ? WHERE merchantId = ?
+      `).run(owner, Date.now() + leaseMs, merchantId);
+      return { row };
+    }).immediate();
+
+    if (claim) return claim;
+    await new Promise(resolve => setTimeout(resolve, REFRESH_POLL_MS));
+  }
+}
+
+/**
+ * Exchange the stored refresh token for a new access token
+ */
+export function refreshOAuthToken(merchantId: string): Promise<string> {
+  const inFlight = refreshesInFlight.get(merchantId);
+  if (inFlight) return inFlight;
+
+  const refresh = (async () => {
+    const settings = requireOAuthSettings();
+    const merchant = requireMerchant(merchantId);
+    const owner = randomUUID();
+
+    const claim = await claimRefresh(merchantId, owner);
+    if ('accessToken' in claim) {
+      console.log(`[OAuth] Using the access token another process refreshed for ${merchant.label} (${merchantId})`);
+      return claim.accessToken;
+    }
+
+    try {
+      const tokens = await postTokenEndpoint(merchant, '/oauth/v2/refresh', {
+        client_id: settings.appId,
+        refresh_token: revealSecret(claim.row.refreshToken!),
+      });
+      saveTokens(merchantId, merchant.currency, tokens, true);
+      console.log(`[OAuth] Refreshed access token for ${merchant.label} (${merchantId})`);
+      return tokens.access_token;
+    } catch (error) {
+      // Our lease may have expired mid-request and another process rotated the refresh token
+      const current = getTokenRow(merchantId);
+      if (current && current.refreshToken !== claim.row.refreshToken) {
+        console.warn(`[OAuth] Refresh failed but another process already rotated the token for ${merchant.label} (${merchantId}); using it`);
+        return revealSecret(current.accessToken);
+      }
+      throw error;
+    } finally {
+      db.prepare(`
+        UPDATE oauth_tokens SET refreshOwner = NULL, refreshLeaseExpiresAt = NULL WHERE merchantId = ? AND refreshOwner = ?
+      `).run(merchantId, owner);
+    }
+  })();
+
+  refreshesInFlight.set(merchantId, refresh);
+  return refresh.finally(() => refreshesInFlight.delete(merchantId));
+}
+
+export function getOAuthTokenStatus(merchantId: string): OAuthTokenStatus | undefined {
+  const row = getTokenRow(merchantId);
+  if (!row) return undefined;
+
+  return {
+    merchantId: row.merchantId,
+    merchantCurrency: row.merchantCurrency,
+    hasRefreshToken: Boolean(row.refreshToken),
+    accessTokenExpiresAt: row.accessTokenExpiresAt,
+    refreshTokenExpiresAt: row.refreshTokenExpiresAt,
+    connectedAt: row.connectedAt,
+    refreshedAt: row.refreshedAt,
+  };
+}
+
+/**
+ * Credentials for a merchant: the stored OAuth token when connected, else the .env API token
+ */
+export function resolveMerchantCredentials(
+  merchantId: string,
+  envApiToken: string | undefined
+): Pick<CloverConfig, 'apiToken' | 'refreshAccessToken'> | null {
+  const row = getTokenRow(merchantId);
+  if (row) {
+    try {
+      return {
+        apiToken: revealSecret(row.accessToken),
+        refreshAccessToken: row.refreshToken ? () => refreshOAuthToken(merchantId) : undefined,
+      };
+    } catch (error) {
+      console.warn(`[OAuth] Could not decrypt stored token for ${merchantId}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return envApiToken ? { apiToken: envApiToken } : null;
+}
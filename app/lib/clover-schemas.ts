@@ -6,6 +6,7 @@ export const CloverMerchantSchema = z.object({
 });
 
 export const CloverAddressSchema = z.object({
+  id: z.string().optional(),
   address1: z.string().optional(),
   address2: z.string().optional(),
   address3: z.string().optional(),
@@ -50,8 +51,38 @@ export const CloverCardSchema = z.object({
   }).optional(),
 });
 
-export const CloverOrderSchema = z.object({
+export const CloverTenderSchema = z.object({
+  id: z.string().optional(),
+  label: z.string().optional(),
+  labelKey: z.string().optional(),
+});
+
+export const CloverCardTransactionSchema = z.object({
+  cardType: z.string().optional(),
+  first6: z.string().optional(),
+  last4: z.string().optional(),
+  type: z.string().optional(),          // AUTH, PREAUTH, ...
+  entryType: z.string().optional(),     // SWIPED, KEYED, VAULTED, ...
+  state: z.string().optional(),         // PENDING, CLOSED
+  authCode: z.string().optional(),
+  referenceId: z.string().optional(),
+  token: z.string().optional(),
+  extra: z.record(z.string()).optional(),
+});
+
+export const CloverPaymentSchema = z.object({
   id: z.string(),
+  amount: z.number().optional(),       // In cents
+  tipAmount: z.number().optional(),
+  taxAmount: z.number().optional(),
+  result: z.string().optional(),       // SUCCESS, FAIL, VOIDED, ...
+  createdTime: z.number().optional(),
+  modifiedTime: z.number().optional(),
+  order: z.object({
+    id: z.string(),
+  }).optional(),
+  tender: CloverTenderSchema.optional(),
+  cardTransaction: CloverCardTransactionSchema.optional(),
 });
 
 export const CloverMetadataSchema = z.object({
@@ -74,6 +105,18 @@ const CloverArrayWrapperSchema = <T extends z.ZodType>(itemSchema: T) => z.union
   }).transform(data => data.elements)
 ]);
 
+export const CloverOrderSchema = z.object({
+  id: z.string(),
+  currency: z.string().optional(),
+  total: z.number().optional(),        // In cents
+  state: z.string().optional(),        // open, locked, paid, ...
+  paymentState: z.string().optional(), // OPEN, PAID, REFUNDED, ...
+  createdTime: z.number().optional(),
+  modifiedTime: z.number().optional(),
+  customers: CloverArrayWrapperSchema(z.object({ id: z.string() })).optional().default([]),
+  payments: CloverArrayWrapperSchema(CloverPaymentSchema).optional().default([]),
+});
+
 export const CloverCustomerSchema = z.object({
   id: z.string(),
   merchant: CloverMerchantSchema.optional(),
@@ -87,6 +130,9 @@ export const CloverCustomerSchema = z.object({
   phoneNumbers: CloverArrayWrapperSchema(CloverPhoneNumberSchema).optional().default([]),
   cards: CloverArrayWrapperSchema(CloverCardSchema).optional().default([]),
   metadata: CloverMetadataSchema.optional(),
+  createdTime: z.number().optional(),
+  modifiedTime: z.number().optional(),
+  deleted: z.boolean().optional(),
 });
 
 // API Response schemas
@@ -95,6 +141,53 @@ export const CloverCustomersResponseSchema = z.object({
   href: z.string().optional(),
 });
 
+export const CloverOrdersResponseSchema = z.object({
+  elements: z.array(CloverOrderSchema),
+  href: z.string().optional(),
+});
+
+export const CloverMerchantPropertiesSchema = z.object({
+  defaultCurrency: z.string().optional(),
+  timezone: z.string().optional(),       // IANA name, e.g. America/Toronto
+});
+
+export const CloverMerchantProfileSchema = z.object({
+  id: z.string(),
+  name: z.string().optional(),
+  phoneNumber: z.string().optional(),
+  address: CloverAddressSchema.optional(),
+  properties: CloverMerchantPropertiesSchema.optional(),
+});
+
+export const CloverMerchantProfilesResponseSchema = z.object({
+  elements: z.array(CloverMerchantProfileSchema),
+  href: z.string().optional(),
+});
+
+/**
+ * Copy fields our schemas don't know about from the raw payload back onto
+ * parsed data (used by the client's lenient validation mode)
+ */
+export function preserveUnknownFields<T>(parsed: T, raw: unknown): T {
+  if (Array.isArray(parsed)) {
+    // Expanded collections may arrive as { elements: [...] } and parse to arrays
+    const rawItems = Array.isArray(raw)
+      ? raw
+      : (raw && typeof raw === 'object' && Array.isArray((raw as any).elements) ? (raw as any).elements : []);
+    return parsed.map((item, index) => preserveUnknownFields(item, rawItems[index])) as T;
+  }
+
+  if (parsed && typeof parsed === 'object' && raw && typeof raw === 'object' && !Array.isArray(raw)) {
+    const merged: Record<string, unknown> = { ...(raw as Record<string, unknown>) };
+    for (const [key, value] of Object.entries(parsed)) {
+      merged[key] = preserveUnknownFields(value, (raw as Record<string, unknown>)[key]);
+    }
+    return merged as T;
+  }
+
+  return parsed;
+}
+
 // Infer TypeScript types from schemas
 export type CloverCustomer = z.infer<typeof CloverCustomerSchema>;
 export type CloverEmailAddress = z.infer<typeof CloverEmailAddressSchema>;
@@ -103,6 +196,8 @@ export type CloverCard = z.infer<typeof CloverCardSchema>;
 export type CloverAddress = z.infer<typeof CloverAddressSchema>;
 export type CloverMetadata = z.infer<typeof CloverMetadataSchema>;
 export type CloverOrder = z.infer<typeof CloverOrderSchema>;
+export type CloverPayment = z.infer<typeof CloverPaymentSchema>;
+export type CloverMerchantProfile = z.infer<typeof CloverMerchantProfileSchema>;
 
 // Card analysis schemas for our internal use
 export const CardAnalysisSchema = z.object({
@@ -114,7 +209,7 @@ export const CardAnalysisSchema = z.object({
 export const CustomerWithAnalysisSchema = CloverCustomerSchema.extend({
   // Add our analysis fields
   merchantId: z.string(),
-  merchantCurrency: z.enum(['USD', 'CAD']),
+  merchantCurrency: z.string(),
   cards: z.array(CardAnalysisSchema),
   hasExpired: z.boolean(),
   hasExpiringSoon: z.boolean(),
@@ -1,14 +1,83 @@
-import { CloverClient, type CloverConfig, type Customer } from './clover-client';
+import { CloverClient, DEFAULT_CUSTOMER_EXPAND, type CloverConfig, type CustomerMetadata, type UpdateCustomerOptions, type Customer, type Order, type Payment } from './clover-client';
 import { db } from './db';
 import { CloverCustomerSchema, type CloverCustomer } from './clover-schemas';
+import { CloverNotFoundError, CloverSchemaError, serializeCloverError, type CloverErrorDetails } from './clover-errors';
+import { getRateLimiterMetrics, type RateLimiterMetrics } from './rate-limiter';
+import { getMerchantLabel, saveMerchantProfile } from './merchants';
+import { getAppConfig, toCloverConfig } from './config';
+import { getMerchantApiToken, loadMerchantSettings } from './merchant-settings';
+import { resolveMerchantCredentials } from './clover-oauth';
+import { protectSecret } from './secrets';
+import { finishSyncRun, getLastFinishedSyncRun, startSyncRun, type MerchantSyncStats, type SyncTrigger } from './sync-history';
+import { acquireSyncLock, getSyncLockHolder } from './sync-lock';
 
 interface SyncConfig {
   merchantId: string;
   apiToken: string;
-  currency: 'USD' | 'CAD';
+  currency: string;
+  label: string;
   environment: 'sandbox' | 'production';
 }
 
+export type SyncMode = 'auto' | 'full' | 'incremental';
+
+export interface SyncOptions {
+  mode?: SyncMode;   // auto: incremental, with a full reconciliation every CLOVER_FULL_RECONCILE_DAYS
+  trigger?: SyncTrigger;   // Recorded in the sync history (default cli)
+  signal?: AbortSignal;   // Cancel the run; merchants already synced keep their data
+  onProgress?: (progress: SyncProgress) => void;
+}
+
+export interface SyncProgress {
+  runId: number;
+  merchantId: string;
+  label: string;
+  merchantIndex: number;   // 1-based position of the merchant being synced
+  merchantCount: number;
+  phase: 'customers' | 'orders';
+  page: number;   // Last customer or order page fetched for this merchant
+  merchantFetched: number;   // Customers fetched for this merchant so far
+  customersStored: number;   // Customers stored across all merchants in this run
+}
+
+export interface SyncState {
+  merchantId: string;
+  merchantCurrency: string;
+  highWaterMark: number | null;
+  lastSuccessAt: number | null;
+  lastFullSyncAt: number | null;
+  lastMode: 'full' | 'incremental' | null;
+}
+
+export interface SyncError extends CloverErrorDetails {
+  merchantId?: string;
+  currency?: string;
+  customerId?: string;
+  error: string;
+  retries?: number;
+}
+
+/**
+ * Build a sync error entry from anything thrown while syncing
+ */
+function toSyncError(error: unknown, context: Omit<SyncError, keyof CloverErrorDetails | 'error'>): SyncError {
+  const details = serializeCloverError(error, context.currency);
+  return { ...details, ...context, error: details.message };
+}
+
+/**
+ * Best available explanation for a failed payment, null for anything else
+ */
+function getDeclineReason(payment: Payment): string | null {
+  if (payment.result !== 'FAIL') return null;
+  const extra = payment.cardTransaction?.extra || {};
+  return extra.declineReason
+    || extra.responseMessage
+    || extra.message
+    || payment.cardTransaction?.state
+    || 'Declined';
+}
+
 export class CloverSyncService {
   private clients: { [key: string]: CloverClient } = {};
   private configs: SyncConfig[] = [];
@@ -18,57 +87,84 @@ export class CloverSyncService {
   }
 
   private initializeClients() {
-    // Initialize USD client if enabled
-    if (process.env.CLOVER_USD_ENABLED === 'true' && 
-        process.env.CLOVER_USD_MERCHANT_ID && 
-        process.env.CLOVER_USD_API_TOKEN) {
-      const usdConfig: CloverConfig = {
-        merchantId: process.env.CLOVER_USD_MERCHANT_ID,
-        apiToken: process.env.CLOVER_USD_API_TOKEN,
-        environment: (process.env.CLOVER_ENV || 'production') as 'sandbox' | 'production',
-        currency: 'USD'
-      };
-      this.clients['USD'] = new CloverClient(usdConfig);
-      this.configs.push({
-        merchantId: usdConfig.merchantId,
-        apiToken: usdConfig.apiToken,
-        currency: 'USD',
-        environment: usdConfig.environment
-      });
-    }
+    // One client per enabled merchant in the merchants config, keyed by merchant ID
+    for (const merchant of loadMerchantSettings()) {
+      if (!merchant.enabled) continue;
 
-    // Initialize CAD client if enabled
-    if (process.env.CLOVER_CAD_ENABLED === 'true' && 
-        process.env.CLOVER_CAD_MERCHANT_ID && 
-        process.env.CLOVER_CAD_API_TOKEN) {
-      const cadConfig: CloverConfig = {
-        merchantId: process.env.CLOVER_CAD_MERCHANT_ID,
-        apiToken: process.env.CLOVER_CAD_API_TOKEN,
-        environment: (process.env.CLOVER_ENV || 'production') as 'sandbox' | 'production',
-        currency: 'CAD'
-      };
-      this.clients['CAD'] = new CloverClient(cadConfig);
+      const credentials = resolveMerchantCredentials(merchant.id, getMerchantApiToken(merchant));
+      if (!credentials) {
+        console.warn(`[CloverSync] ${merchant.label} has no API token or OAuth connection, skipped`);
+        continue;
+      }
+
+      const config: CloverConfig = { ...toCloverConfig(merchant, credentials.apiToken), ...credentials };
+      this.clients[merchant.id] = new CloverClient(config);
       this.configs.push({
-        merchantId: cadConfig.merchantId,
-        apiToken: cadConfig.apiToken,
-        currency: 'CAD',
-        environment: cadConfig.environment
+        merchantId: merchant.id,
+        apiToken: config.apiToken,
+        currency: merchant.currency,
+        label: merchant.label,
+        environment: merchant.environment
       });
     }
 
-    console.log(`[CloverSync] Initialized ${Object.keys(this.clients).length} Clover clients:`, Object.keys(this.clients));
+    console.log(`[CloverSync] Initialized ${Object.keys(this.clients).length} Clover clients:`, this.configs.map(config => config.label));
   }
 
-  async syncAllCustomers(): Promise<{ success: boolean; stats: any; errors: any[] }> {
+  /**
+   * Decide whether a merchant gets a full or an incremental sync
+   */
+  private resolveSyncMode(mode: SyncMode, state: SyncState | undefined): 'full' | 'incremental' {
+    if (mode !== 'auto') return mode === 'incremental' && !state?.highWaterMark ? 'full' : mode;
+    if (!state?.highWaterMark || !state.lastFullSyncAt) return 'full';
+
+    const reconcileDays = getAppConfig().sync.fullReconcileDays;
+    const daysSinceFull = (Date.now() / 1000 - state.lastFullSyncAt) / (24 * 60 * 60);
+    return daysSinceFull >= reconcileDays ? 'full' : 'incremental';
+  }
+
+  getSyncState(merchantId: string): SyncState | undefined {
+    return db.prepare(`SELECT * FROM sync_state WHERE merchantId = ?`).get(merchantId) as SyncState | undefined;
+  }
+
+  private saveSyncState(config: SyncConfig, mode: 'full' | 'incremental', highWaterMark: number | null) {
+    db.prepare(`
+      INSERT INTO sync_state (merchantId, merchantCurrency, highWaterMark, lastSuccessAt, lastFullSyncAt, lastMode)
+      VALUES (?, ?, ?, unixepoch(), CASE WHEN ? = 'full' THEN unixepoch() END, ?)
+      ON CONFLICT(merchantId) DO UPDATE SET
+        merchantCurrency = excluded.merchantCurrency,
+        highWaterMark = excluded.highWaterMark,
+        lastSuccessAt = excluded.lastSuccessAt,
+        lastFullSyncAt = COALESCE(excluded.lastFullSyncAt, sync_state.lastFullSyncAt),
+        lastMode = excluded.lastMode,
+        updatedAt = unixepoch()
+    `).run(config.merchantId, config.currency, highWaterMark, mode, mode);
+  }
+
+  /**
+   * Sync every enabled merchant; throws SyncLockedError when another sync holds the lock
+   */
+  async syncAllCustomers(options: SyncOptions = {}): Promise<{ success: boolean; cancelled: boolean; runId: number; stats: any; errors: SyncError[] }> {
+    const lease = acquireSyncLock(options.trigger ?? 'cli');
+    let runId: number;
+    try {
+      runId = startSyncRun(options.trigger ?? 'cli', options.mode ?? 'auto');
+      lease.setRunId(runId);
+    } catch (error) {
+      // No run to record; just don't leave the lease held until it expires
+      lease.release();
+      throw error;
+    }
     const stats = {
       totalCustomers: 0,
-      customersByMerchant: {},
+      customersByMerchant: {} as Record<string, MerchantSyncStats>,
       syncStartTime: new Date(),
-      syncEndTime: null as Date | null
+      syncEndTime: null as Date | null,
+      rateLimiter: [] as RateLimiterMetrics[]
     };
-    const errors: any[] = [];
+    const errors: SyncError[] = [];
 
-    console.log('[CloverSync] Starting sync of all customers...');
+    console.log(`[CloverSync] Starting sync of all customers (run ${runId})...`);
 
     try {
       // Clear existing test data
@@ -76,82 +172,164 @@ export class CloverSyncService {
       this.clearTestData();
 
       // Sync customers for each enabled merchant
-      for (const config of this.configs) {
-        console.log(`[CloverSync] Syncing customers for ${config.currency} merchant: ${config.merchantId}`);
+      for (const [index, config] of this.configs.entries()) {
+        if (options.signal?.aborted) break;
+        console.log(`[CloverSync] Syncing customers for ${config.label} (${config.merchantId})`);
         
+        const client = this.clients[config.merchantId];
+        client.resetRetryStats();
+
+        const state = this.getSyncState(config.merchantId);
+        const mode = this.resolveSyncMode(options.mode ?? 'auto', state);
+        // Overlap the window a little so edits made during the last run aren't missed
+        const overlapMs = getAppConfig().sync.incrementalOverlapMs;
+        const modifiedSince = mode === 'incremental' && state?.highWaterMark
+          ? state.highWaterMark - overlapMs
+          : undefined;
+        const errorCountBefore = errors.length;
+
+        let fetchedCount = 0;
+        let syncedCount = 0;
+        let page = 0;
+        const reportProgress = (phase: SyncProgress['phase']) => options.onProgress?.({
+          runId,
+          merchantId: config.merchantId,
+          label: config.label,
+          merchantIndex: index + 1,
+          merchantCount: this.configs.length,
+          phase,
+          page,
+          merchantFetched: fetchedCount,
+          customersStored: stats.totalCustomers + syncedCount
+        });
+        reportProgress('customers');
+
+        await this.syncMerchantProfile(client, config);
+
+        console.log(`[CloverSync] ${mode} sync for ${config.label}${modifiedSince ? ` (modified since ${new Date(modifiedSince).toISOString()})` : ''}`);
+
         try {
-          const client = this.clients[config.currency];
-          
-          // Fetch ALL customers with pagination
-          const allCustomers: Customer[] = [];
-          let offset = 0;
-          const limit = 100;
-          let hasMore = true;
-
-          while (hasMore) {
-            console.log(`[CloverSync] Fetching batch: offset=${offset}, limit=${limit}`);
-            const customers = await client.getCustomersPaginated(limit, offset);
-            
-            if (customers.length === 0) {
-              hasMore = false;
-            } else {
-              allCustomers.push(...customers);
-              offset += limit;
-              
-              // If we got less than the limit, we've reached the end
-              if (customers.length < limit) {
-                hasMore = false;
-              }
+          // Stream customers page by page and store them as they arrive
+          let highWaterMark = state?.highWaterMark ?? null;
+          // A full sync that read every page sees every customer Clover has, so the rest were deleted there
+          const seenIds: string[] = [];
+          let listedAll = false;
+          const customers = client.iterateCustomers({
+            pageSize: 100,
+            modifiedSince,
+            signal: options.signal,
+            onPage: ({ pageNumber, count, checkpoint }) => {
+              console.log(`[CloverSync] Fetched page ${pageNumber}: ${count} customers (offset=${checkpoint.offset})`);
+              page = pageNumber;
+              reportProgress('customers');
+            },
+            onComplete: () => {
+              listedAll = true;
             }
-          }
+          });
 
-          console.log(`[CloverSync] Fetched ${allCustomers.length} total customers from ${config.currency} merchant`);
-          
-          // Store customers in database
-          let syncedCount = 0;
-          for (const customer of allCustomers) {
+          for await (const customer of customers) {
+            fetchedCount++;
+            if (customer.id) seenIds.push(customer.id);
             try {
               await this.storeCustomer(customer, config);
               syncedCount++;
+              reportProgress('customers');
+              if (customer.modifiedTime && customer.modifiedTime > (highWaterMark ?? 0)) {
+                highWaterMark = customer.modifiedTime;
+              }
             } catch (error) {
               console.error(`[CloverSync] Error storing customer ${customer.id}:`, error);
-              errors.push({
+              errors.push(toSyncError(error, {
                 merchantId: config.merchantId,
-                customerId: customer.id,
-                error: error instanceof Error ? error.message : 'Unknown error'
-              });
+                currency: config.currency,
+                customerId: customer.id
+              }));
             }
           }
 
-          stats.customersByMerchant[config.currency] = {
-            fetched: allCustomers.length,
+          console.log(`[CloverSync] Fetched ${fetchedCount} total customers from ${config.label}`);
+
+          // A cut-short listing or a customer that failed to store would soft-delete customers Clover still has
+          const canReconcile = mode === 'full' && listedAll && errors.length === errorCountBefore;
+          if (mode === 'full' && !canReconcile) {
+            console.warn(`[CloverSync] Skipping deletion check for ${config.label}: the customer listing was incomplete`);
+          }
+          const deletedCount = canReconcile ? this.reconcileCustomers(config, seenIds) : 0;
+
+          // Orders and payments feed last purchase date and lifetime spend
+          page = 0;
+          const orderStats = !getAppConfig().sync.syncOrders
+            ? null
+            : await this.syncOrders(client, config, errors, modifiedSince, options.signal, pageNumber => {
+              page = pageNumber;
+              reportProgress('orders');
+            });
+
+          // Only advance the high-water mark when nothing failed, so failures are retried next run
+          if (errors.length === errorCountBefore) {
+            this.saveSyncState(config, mode, highWaterMark ?? stats.syncStartTime.getTime());
+          }
+
+          stats.customersByMerchant[config.merchantId] = {
+            label: config.label,
+            currency: config.currency,
+            fetched: fetchedCount,
             synced: syncedCount,
-            errors: allCustomers.length - syncedCount
+            errors: fetchedCount - syncedCount,
+            deleted: deletedCount,
+            retries: client.getRetryStats().retries,
+            orders: orderStats,
+            mode,
+            modifiedSince: modifiedSince ?? null
           };
           stats.totalCustomers += syncedCount;
 
         } catch (error) {
-          console.error(`[CloverSync] Error syncing ${config.currency} merchant:`, error);
-          errors.push({
+          if (options.signal?.aborted) {
+            // Deletions and the high-water mark need the whole merchant, so only the counts are kept
+            console.log(`[CloverSync] Sync cancelled during ${config.label}`);
+            stats.customersByMerchant[config.merchantId] = {
+              label: config.label,
+              currency: config.currency,
+              fetched: fetchedCount,
+              synced: syncedCount,
+              errors: fetchedCount - syncedCount,
+              deleted: 0,
+              retries: client.getRetryStats().retries,
+              orders: null,
+              mode,
+              modifiedSince: modifiedSince ?? null
+            };
+            stats.totalCustomers += syncedCount;
+            break;
+          }
+          console.error(`[CloverSync] Error syncing ${config.label}:`, error);
+          errors.push(toSyncError(error, {
             merchantId: config.merchantId,
             currency: config.currency,
-            error: error instanceof Error ? error.message : 'Unknown error'
-          });
+            retries: client.getRetryStats().retries
+          }));
         }
       }
 
       stats.syncEndTime = new Date();
+      stats.rateLimiter = getRateLimiterMetrics();
       const duration = stats.syncEndTime.getTime() - stats.syncStartTime.getTime();
       
-      console.log(`[CloverSync] Sync completed in ${duration}ms`);
+      const cancelled = options.signal?.aborted ?? false;
+      console.log(`[CloverSync] Sync ${cancelled ? 'cancelled' : 'completed'} in ${duration}ms`);
       console.log(`[CloverSync] Stats:`, stats);
       
       if (errors.length > 0) {
         console.log(`[CloverSync] ${errors.length} errors occurred:`, errors);
       }
 
+      finishSyncRun(runId, stats.customersByMerchant, errors, cancelled ? 'cancelled' : undefined);
       return {
-        success: errors.length === 0,
+        success: errors.length === 0 && !cancelled,
+        cancelled,
+        runId,
         stats,
         errors
       };
@@ -159,17 +337,121 @@ export class CloverSyncService {
     } catch (error) {
       console.error('[CloverSync] Fatal sync error:', error);
       stats.syncEndTime = new Date();
+      errors.push(toSyncError(error, {}));
+      finishSyncRun(runId, stats.customersByMerchant, errors, 'failed');
       
       return {
         success: false,
+        cancelled: false,
+        runId,
         stats,
-        errors: [{
-          error: error instanceof Error ? error.message : 'Unknown fatal error'
-        }]
+        errors
       };
+    } finally {
+      lease.release();
+    }
+  }
+
+  /**
+   * Re-fetch a single customer (cards, contact details, metadata) and store it.
+   * Customers Clover no longer knows about are soft-deleted locally.
+   */
+  async refreshCustomer(merchantId: string, customerId: string): Promise<'updated' | 'deleted'> {
+    const config = this.configs.find(c => c.merchantId === merchantId);
+    if (!config) {
+      throw new Error(`No enabled Clover merchant configured for ${merchantId}`);
+    }
+
+    try {
+      const customer = await this.clients[config.merchantId].getCustomer(customerId, DEFAULT_CUSTOMER_EXPAND);
+      await this.storeCustomer(customer, config);
+      return customer.deleted ? 'deleted' : 'updated';
+    } catch (error) {
+      if (error instanceof CloverNotFoundError) {
+        this.markCustomerDeleted(customerId);
+        return 'deleted';
+      }
+      throw error;
     }
   }
 
+  /**
+   * Write a customer's note back to Clover, then mirror the result locally
+   */
+  async saveCustomerNote(
+    customerId: string,
+    note: string,
+    options: UpdateCustomerOptions & { append?: boolean } = {}
+  ): Promise<CustomerMetadata> {
+    const row = db.prepare(`SELECT merchantId FROM customers WHERE id = ?`).get(customerId) as { merchantId: string } | undefined;
+    if (!row) {
+      throw new Error(`Customer ${customerId} not found`);
+    }
+
+    const config = this.configs.find(c => c.merchantId === row.merchantId);
+    if (!config) {
+      throw new Error(`No enabled Clover merchant configured for ${row.merchantId}`);
+    }
+
+    const metadata = await this.clients[config.merchantId].updateCustomerNote(customerId, note, options);
+
+    db.prepare(`
+      INSERT INTO metadata (customerId, businessName, note, modifiedTime, rawMetadata)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(customerId) DO UPDATE SET
+        note = excluded.note,
+        modifiedTime = excluded.modifiedTime,
+        rawMetadata = excluded.rawMetadata
+    `).run(
+      customerId,
+      metadata.businessName || null,
+      metadata.note || null,
+      metadata.modifiedTime || null,
+      JSON.stringify(metadata)
+    );
+
+    return metadata;
+  }
+
+  /**
+   * Soft-delete a customer Clover no longer has; cards, contact details and orders are kept
+   */
+  markCustomerDeleted(customerId: string) {
+    db.prepare(`
+      UPDATE customers SET deletedAt = unixepoch(), updatedAt = unixepoch()
+      WHERE id = ? AND deletedAt IS NULL
+    `).run(customerId);
+  }
+
+  /**
+   * Soft-delete the merchant's customers a full sync did not return. Returns how many were marked.
+   */
+  private reconcileCustomers(config: SyncConfig, seenIds: string[]): number {
+    const { changes } = db.prepare(`
+      UPDATE customers SET deletedAt = unixepoch(), updatedAt = unixepoch()
+      WHERE merchantId = ? AND deletedAt IS NULL
+        AND id NOT IN (SELECT value FROM json_each(?))
+    `).run(config.merchantId, JSON.stringify(seenIds));
+
+    if (changes > 0) {
+      console.log(`[CloverSync] Marked ${changes} ${config.label} customers deleted (no longer in Clover)`);
+    }
+    return changes;
+  }
+
+  /**
+   * Soft-delete a customer's emails, phones or cards that Clover no longer lists
+   */
+  private markMissingDeleted(table: 'emailAddresses' | 'phoneNumbers' | 'cards', customerId: string, ids: Array<string | undefined>) {
+    // An undefined id would serialize to null, and NOT IN a list holding null never matches
+    const presentIds = ids.filter(Boolean);
+    db.prepare(`
+      UPDATE ${table} SET deletedAt = unixepoch()
+      WHERE customerId = ? AND deletedAt IS NULL
+        AND id NOT IN (SELECT value FROM json_each(?))
+    `).run(customerId, JSON.stringify(presentIds));
+  }
+
   private clearTestData() {
     // Remove test data (anything starting with 'CUST_', 'EMAIL_', etc.)
     const tables = ['orders', 'cards', 'phoneNumbers', 'emailAddresses', 'addresses', 'metadata', 'customers'];
@@ -192,7 +474,7 @@ export class CloverSyncService {
 
   private async storeCustomer(customer: Customer, config: SyncConfig) {
     // Validate customer data with Zod
-    const validatedCustomer = CloverCustomerSchema.parse({
+    const parsed = CloverCustomerSchema.safeParse({
       id: customer.id,
       firstName: customer.firstName,
       lastName: customer.lastName,
@@ -203,15 +485,37 @@ export class CloverSyncService {
       phoneNumbers: customer.phoneNumbers || [],
       cards: customer.cards || [],
       orders: customer.orders || [],
-      metadata: customer.metadata || {}
+      metadata: customer.metadata || {},
+      deleted: customer.deleted
     });
 
-    // Insert customer
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+      throw new CloverSchemaError(`Customer ${customer.id} failed validation: ${issues.join('; ')}`, {
+        endpoint: `/v3/merchants/${config.merchantId}/customers`,
+        merchantCurrency: config.currency,
+        issues
+      });
+    }
+    const validatedCustomer = parsed.data;
+
+    // Upsert customer (INSERT OR REPLACE would cascade-delete the customer's orders and payments).
+    // Clover's deleted flag soft-deletes it; a customer seen again without the flag is restored.
     db.prepare(`
-      INSERT OR REPLACE INTO customers (
+      INSERT INTO customers (
         id, merchantId, merchantCurrency, firstName, lastName, 
-        customerSince, marketingAllowed, lastSyncedAt
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        customerSince, marketingAllowed, lastSyncedAt, deletedAt
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, CASE WHEN ? THEN unixepoch() END)
+      ON CONFLICT(id) DO UPDATE SET
+        merchantId = excluded.merchantId,
+        merchantCurrency = excluded.merchantCurrency,
+        firstName = excluded.firstName,
+        lastName = excluded.lastName,
+        customerSince = excluded.customerSince,
+        marketingAllowed = excluded.marketingAllowed,
+        lastSyncedAt = excluded.lastSyncedAt,
+        deletedAt = CASE WHEN excluded.deletedAt IS NULL THEN NULL ELSE COALESCE(customers.deletedAt, excluded.deletedAt) END,
+        updatedAt = unixepoch()
     `).run(
       validatedCustomer.id,
       config.merchantId,
@@ -220,26 +524,46 @@ export class CloverSyncService {
       validatedCustomer.lastName || null,
       validatedCustomer.customerSince || null,
       validatedCustomer.marketingAllowed ? 1 : 0,
-      Math.floor(Date.now() / 1000)
+      Math.floor(Date.now() / 1000),
+      validatedCustomer.deleted ? 1 : 0
     );
 
-    // Insert metadata if exists
-    if (validatedCustomer.metadata && validatedCustomer.metadata.businessName) {
+    // Upsert metadata with what Clover currently has, so a row is only dropped once Clover has none.
+    // A page fetched before a note was saved carries an older modifiedTime and must not revert it.
+    // Emails, phones and cards are upserted and the ones Clover no longer lists are soft-deleted below
+    const metadata = validatedCustomer.metadata;
+    const hasMetadata = metadata && [
+      metadata.businessName, metadata.note, metadata.dobYear, metadata.dobMonth, metadata.dobDay, metadata.modifiedTime
+    ].some(value => value !== undefined);
+
+    if (hasMetadata) {
       db.prepare(`
-        INSERT OR REPLACE INTO metadata (
+        INSERT INTO metadata (
           customerId, businessName, note, dobYear, dobMonth, dobDay, 
           modifiedTime, rawMetadata
         ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(customerId) DO UPDATE SET
+          businessName = excluded.businessName,
+          note = excluded.note,
+          dobYear = excluded.dobYear,
+          dobMonth = excluded.dobMonth,
+          dobDay = excluded.dobDay,
+          modifiedTime = excluded.modifiedTime,
+          rawMetadata = excluded.rawMetadata
+        WHERE excluded.modifiedTime IS NULL OR metadata.modifiedTime IS NULL
+          OR excluded.modifiedTime >= metadata.modifiedTime
       `).run(
         validatedCustomer.id,
-        validatedCustomer.metadata.businessName || null,
-        validatedCustomer.metadata.note || null,
-        validatedCustomer.metadata.dobYear || null,
-        validatedCustomer.metadata.dobMonth || null,
-        validatedCustomer.metadata.dobDay || null,
-        validatedCustomer.metadata.modifiedTime || null,
-        JSON.stringify(validatedCustomer.metadata)
+        metadata.businessName || null,
+        metadata.note || null,
+        metadata.dobYear || null,
+        metadata.dobMonth || null,
+        metadata.dobDay || null,
+        metadata.modifiedTime || null,
+        JSON.stringify(metadata)
       );
+    } else {
+      db.prepare(`DELETE FROM metadata WHERE customerId = ?`).run(validatedCustomer.id);
     }
 
     // Insert email addresses
@@ -258,6 +582,7 @@ export class CloverSyncService {
         );
       }
     }
+    this.markMissingDeleted('emailAddresses', validatedCustomer.id, validatedCustomer.emailAddresses.map(email => email.id));
 
     // Insert phone numbers
     for (const phone of validatedCustomer.phoneNumbers || []) {
@@ -273,6 +598,7 @@ export class CloverSyncService {
         );
       }
     }
+    this.markMissingDeleted('phoneNumbers', validatedCustomer.id, validatedCustomer.phoneNumbers.map(phone => phone.id));
 
     // Insert addresses (no IDs in Clover, use customer ID + index)
     db.prepare(`DELETE FROM addresses WHERE customerId = ?`).run(validatedCustomer.id);
@@ -310,52 +636,206 @@ export class CloverSyncService {
           card.lastName || null,
           card.expirationDate || null,
           card.cardType || null,
-          card.token || null,
+          card.token ? protectSecret(card.token) : null,
           card.tokenType || null,
           card.modifiedTime || null,
           card.additionalInfo ? JSON.stringify(card.additionalInfo) : null
         );
       }
     }
+    this.markMissingDeleted('cards', validatedCustomer.id, validatedCustomer.cards.map(card => card.id));
 
     // Insert orders
     for (const order of validatedCustomer.orders || []) {
       if (order.id) {
         db.prepare(`
-          INSERT OR REPLACE INTO orders (
-            id, customerId
-          ) VALUES (?, ?)
+          INSERT INTO orders (
+            id, customerId, merchantId
+          ) VALUES (?, ?, ?)
+          ON CONFLICT(id) DO NOTHING
         `).run(
           order.id,
-          validatedCustomer.id
+          validatedCustomer.id,
+          config.merchantId
         );
       }
     }
   }
 
+  /**
+   * Refresh the cached merchant profile. Only used for display, so failures don't fail the sync.
+   */
+  private async syncMerchantProfile(client: CloverClient, config: SyncConfig) {
+    try {
+      const merchant = await client.getMerchantProfile();
+      saveMerchantProfile(merchant, config.currency);
+      console.log(`[CloverSync] Merchant profile: ${merchant.name || config.merchantId} (${config.currency})`);
+    } catch (error) {
+      console.warn(`[CloverSync] Could not fetch ${config.label} merchant profile:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Fetch the merchant's orders (with payments) and store those linked to a known customer
+   */
+  private async syncOrders(
+    client: CloverClient,
+    config: SyncConfig,
+    errors: SyncError[],
+    modifiedSince?: number,
+    signal?: AbortSignal,
+    onPage?: (pageNumber: number) => void
+  ) {
+    const lookbackDays = getAppConfig().sync.ordersLookbackDays;
+    const filter = lookbackDays > 0
+      ? `createdTime>=${Date.now() - lookbackDays * 24 * 60 * 60 * 1000}`
+      : undefined;
+
+    let fetched = 0;
+    let stored = 0;
+    const orders = client.iterateOrders({
+      pageSize: 100,
+      filter,
+      modifiedSince,
+      signal,
+      onPage: ({ pageNumber, count }) => {
+        console.log(`[CloverSync] Fetched orders page ${pageNumber}: ${count} orders`);
+        onPage?.(pageNumber);
+      }
+    });
+
+    for await (const order of orders) {
+      fetched++;
+      try {
+        if (this.storeOrder(order, config)) stored++;
+      } catch (error) {
+        console.error(`[CloverSync] Error storing order ${order.id}:`, error);
+        errors.push(toSyncError(error, {
+          merchantId: config.merchantId,
+          currency: config.currency
+        }));
+      }
+    }
+
+    console.log(`[CloverSync] Stored ${stored}/${fetched} ${config.label} orders linked to customers`);
+    return { fetched, stored };
+  }
+
+  /**
+   * Store an order and its payments. Returns false when the order has no known customer.
+   */
+  storeOrder(order: Order, config: SyncConfig): boolean {
+    const customerId = order.customers?.[0]?.id;
+    if (!customerId) return false;
+
+    const known = db.prepare(`SELECT 1 FROM customers WHERE id = ?`).get(customerId);
+    if (!known) return false;
+
+    const upsertOrder = db.prepare(`
+      INSERT INTO orders (
+        id, customerId, merchantId, currency, total, state, paymentState, createdTime, modifiedTime
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        customerId = excluded.customerId,
+        merchantId = excluded.merchantId,
+        currency = excluded.currency,
+        total = excluded.total,
+        state = excluded.state,
+        paymentState = excluded.paymentState,
+        createdTime = excluded.createdTime,
+        modifiedTime = excluded.modifiedTime
+    `);
+    const upsertPayment = db.prepare(`
+      INSERT INTO payments (
+        id, orderId, customerId, amount, tipAmount, result, tenderLabel,
+        cardType, cardFirst6, cardLast4, cardEntryType, declineReason, createdTime, modifiedTime
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        orderId = excluded.orderId,
+        customerId = excluded.customerId,
+        amount = excluded.amount,
+        tipAmount = excluded.tipAmount,
+        result = excluded.result,
+        tenderLabel = excluded.tenderLabel,
+        cardType = excluded.cardType,
+        cardFirst6 = excluded.cardFirst6,
+        cardLast4 = excluded.cardLast4,
+        cardEntryType = excluded.cardEntryType,
+        declineReason = excluded.declineReason,
+        createdTime = excluded.createdTime,
+        modifiedTime = excluded.modifiedTime
+    `);
+
+    db.transaction(() => {
+      upsertOrder.run(
+        order.id,
+        customerId,
+        config.merchantId,
+        order.currency || null,
+        order.total ?? null,
+        order.state || null,
+        order.paymentState || null,
+        order.createdTime || null,
+        order.modifiedTime || null
+      );
+
+      for (const payment of order.payments || []) {
+        upsertPayment.run(
+          payment.id,
+          order.id,
+          customerId,
+          payment.amount ?? null,
+          payment.tipAmount ?? null,
+          payment.result || null,
+          payment.tender?.label || null,
+          payment.cardTransaction?.cardType || null,
+          payment.cardTransaction?.first6 || null,
+          payment.cardTransaction?.last4 || null,
+          payment.cardTransaction?.entryType || null,
+          getDeclineReason(payment),
+          payment.createdTime || null,
+          payment.modifiedTime || null
+        );
+      }
+    })();
+
+    return true;
+  }
+
   async getStats(): Promise<any> {
-    const totalCustomers = db.prepare(`SELECT COUNT(*) as count FROM customers`).get() as { count: number };
-    const customersByMerchant = db.prepare(`
-      SELECT merchantCurrency, COUNT(*) as count 
+    const totalCustomers = db.prepare(`SELECT COUNT(*) as count FROM customers WHERE deletedAt IS NULL`).get() as { count: number };
+    const deletedCustomers = db.prepare(`SELECT COUNT(*) as count FROM customers WHERE deletedAt IS NOT NULL`).get() as { count: number };
+    const customersByMerchant = (db.prepare(`
+      SELECT merchantId, merchantCurrency, COUNT(*) as count 
       FROM customers 
-      GROUP BY merchantCurrency
-    `).all();
+      WHERE deletedAt IS NULL
+      GROUP BY merchantId, merchantCurrency
+    `).all() as Array<{ merchantId: string; merchantCurrency: string; count: number }>)
+      .map(row => ({ ...row, label: getMerchantLabel(row.merchantId, row.merchantCurrency) }));
     const customersWithCards = db.prepare(`
-      SELECT COUNT(DISTINCT customerId) as count 
+      SELECT COUNT(DISTINCT cards.customerId) as count 
       FROM cards
+      JOIN customers ON customers.id = cards.customerId
+      WHERE cards.deletedAt IS NULL AND customers.deletedAt IS NULL
     `).get() as { count: number };
     const customersWithBusinessName = db.prepare(`
       SELECT COUNT(*) as count 
       FROM metadata 
-      WHERE businessName IS NOT NULL
+      JOIN customers ON customers.id = metadata.customerId
+      WHERE businessName IS NOT NULL AND customers.deletedAt IS NULL
     `).get() as { count: number };
+    const lastRun = getLastFinishedSyncRun();
 
     return {
       totalCustomers: totalCustomers.count,
+      deletedCustomers: deletedCustomers.count,
       customersByMerchant,
       customersWithCards: customersWithCards.count,
       customersWithBusinessName: customersWithBusinessName.count,
-      lastSyncTime: new Date().toISOString()
+      syncState: db.prepare(`SELECT * FROM sync_state ORDER BY merchantCurrency`).all(),
+      lastSyncTime: lastRun?.finishedAt ? new Date(lastRun.finishedAt * 1000).toISOString() : null,
+      lastRun: lastRun ?? null,
+      runningSync: getSyncLockHolder()
     };
   }
 }
\ No newline at end of file
@@ -0,0 +1,220 @@
+/**
+ * Clover webhook handling
+ *
+ * Clover POSTs a list of changed object IDs per merchant. We authenticate the
+ * request, queue one row per event in SQLite, then refresh only the affected
+ * customers (and their cards) instead of running a full sync.
+ */
+
+import { timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import { db } from './db';
+import { CloverSyncService } from './clover-sync';
+import { getAppConfig } from './config';
+import { revealSecret } from './secrets';
+
+export const CloverWebhookEventSchema = z.object({
+  objectId: z.string(),                 // Prefixed ID, e.g. C:ABC123 for a customer
+  type: z.string(),                     // CREATE, UPDATE, DELETE
+  ts: z.number(),
+});
+
+export const CloverWebhookPayloadSchema = z.object({
+  appId: z.string().optional(),
+  merchants: z.record(z.array(CloverWebhookEventSchema)),
+});
+
+// Sent once when the webhook URL is saved in the Clover developer dashboard
+export const CloverWebhookVerificationSchema = z.object({
+  verificationCode: z.string(),
+});
+
+export type CloverWebhookPayload = z.infer<typeof CloverWebhookPayloadSchema>;
+
+export interface WebhookEvent {
+  id: number;
+  merchantId: string;
+  objectType: string;
+  objectId: string;
+  eventType: string;
+  ts: number;
+  status: 'pending' | 'processed' | 'failed' | 'ignored';
+  attempts: number;
+  lastError: string | null;
+  receivedAt: number;
+  processedAt: number | null;
+}
+
+export interface WebhookProcessResult {
+  processed: number;
+  deleted: number;
+  ignored: number;
+  failed: number;
+}
+
+// Object ID prefixes we act on; everything else is recorded and ignored
+const CUSTOMER_OBJECT_TYPE = 'C';
+
+/**
+ * Compare the X-Clover-Auth header against the auth code from the Clover dashboard
+ */
+export function verifyWebhookAuth(header: string | null): boolean {
+  const expected = revealSecret(getAppConfig().webhooks.authCode);
+  if (!expected || !header) return false;
+
+  const received = Buffer.from(header);
+  const wanted = Buffer.from(expected);
+  return received.length === wanted.length && timingSafeEqual(received, wanted);
+}
+
+/**
+ * Split a prefixed Clover object ID ("C:ABC123") into its type and ID
+ */
+export function parseObjectId(objectId: string): { objectType: string; id: string } {
+  const separator = objectId.indexOf(':');
+  if (separator === -1) return { objectType: '', id: objectId };
+  return { objectType: objectId.slice(0, separator), id: objectId.slice(separator + 1) };
+}
+
+/**
+ * Store every event in the payload; redeliveries of the same event are ignored
+ */
+export function queueWebhookEvents(payload: CloverWebhookPayload): number {
+  const insert = db.prepare(`
+    INSERT OR IGNORE INTO webhook_events (
+      merchantId, objectType, objectId, eventType, ts, status
+    ) VALUES (?, ?, ?, ?, ?, ?)
+  `);
+
+  const queueAll = db.transaction(() => {
+    let queued = 0;
+    for (const [merchantId, events] of Object.entries(payload.merchants)) {
+      for (const event of events) {
+        const { objectType, id } = parseObjectId(event.objectId);
+        const status = objectType === CUSTOMER_OBJECT_TYPE ? 'pending' : 'ignored';
+        queued += insert.run(merchantId, objectType, id, event.type, event.ts, status).changes;
+      }
+    }
+    return queued;
+  });
+
+  return queueAll();
+}
+
+async function processPendingEvents(syncService: CloverSyncService): Promise<WebhookProcessResult> {
+  const result: WebhookProcessResult = { processed: 0, deleted: 0, ignored: 0, failed: 0 };
+  const { maxAttempts, retryDelayMs } = getAppConfig().webhooks;
+
+  const selectDue = db.prepare(`
+    SELECT * FROM webhook_events
+    WHERE status = 'pending'
+       OR (status = 'failed' AND attempts < ? AND IFNULL(nextAttemptAt, 0) <= unixepoch())
+    ORDER BY ts
+  `);
+  const markDone = db.prepare(`
+    UPDATE webhook_events
+    SET status = ?, attempts = attempts + 1, lastError = NULL, nextAttemptAt = NULL, processedAt = unixepoch()
+    WHERE id = ?
+  `);
+  const markFailed = db.prepare(`
+    UPDATE webhook_events
+    SET status = 'failed', attempts = attempts + 1, lastError = ?, nextAttemptAt = unixepoch() + ?
+    WHERE id = ?
+  `);
+
+  let total = 0;
+  // Events queued while a batch was refreshing are picked up by the next pass
+  for (;;) {
+    const events = selectDue.all(maxAttempts) as WebhookEvent[];
+    if (events.length === 0) break;
+    total += events.length;
+
+    // Several events for one customer only need one refresh
+    const byObject = new Map<string, WebhookEvent[]>();
+    for (const event of events) {
+      const key = `${event.merchantId}:${event.objectType}:${event.objectId}`;
+      byObject.set(key, [...(byObject.get(key) || []), event]);
+    }
+
+    for (const group of byObject.values()) {
+      const latest = group[group.length - 1];
+      try {
+        if (latest.objectType !== CUSTOMER_OBJECT_TYPE) {
+          group.forEach(event => markDone.run('ignored', event.id));
+          result.ignored += group.length;
+          continue;
+        }
+
+        if (latest.eventType === 'DELETE') {
+          syncService.markCustomerDeleted(latest.objectId);
+          result.deleted++;
+        } else {
+          const outcome = await syncService.refreshCustomer(latest.merchantId, latest.objectId);
+          if (outcome === 'deleted') result.deleted++;
+          else result.processed++;
+        }
+        group.forEach(event => markDone.run('processed', event.id));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`[Webhooks] Failed to refresh customer ${latest.objectId}:`, message);
+        // Backs off by doubling the delay on every failed attempt
+        group.forEach(event => markFailed.run(message, Math.ceil(retryDelayMs * 2 ** event.attempts / 1000), event.id));
+        result.failed++;
+      }
+    }
+  }
+
+  if (total > 0) {
+    console.log(`[Webhooks] Processed ${total} events:`, result);
+  }
+  scheduleRetry(syncService);
+  return result;
+}
+
+// Only one processing run at a time; later calls share the current one, which runs until the queue is empty
+let processing: Promise<WebhookProcessResult> | null = null;
+let retryTimer: NodeJS.Timeout | null = null;
+
+// Wake up when the earliest failed event is due for another attempt
+function scheduleRetry(syncService: CloverSyncService) {
+  const { nextAttemptAt } = db.prepare(`
+    SELECT MIN(IFNULL(nextAttemptAt, 0)) as nextAttemptAt FROM webhook_events
+    WHERE status = 'failed' AND attempts < ?
+  `).get(getAppConfig().webhooks.maxAttempts) as { nextAttemptAt: number | null };
+
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  if (nextAttemptAt === null) return;
+
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    processWebhookEvents(syncService).catch(error => {
+      console.error('[Webhooks] Retry failed:', error);
+    });
+  }, Math.max(0, nextAttemptAt * 1000 - Date.now()));
+  // A retry waiting in the queue shouldn't keep a CLI process alive
+  retryTimer.unref();
+}
+
+/**
+ * Refresh the customers referenced by queued webhook events
+ */
+export function processWebhookEvents(syncService = new CloverSyncService()): Promise<WebhookProcessResult> {
+  if (!processing) {
+    processing = processPendingEvents(syncService).finally(() => {
+      processing = null;
+    });
+  }
+  return processing;
+}
+
+/**
+ * Queue counts by status, for monitoring
+ */
+export function getWebhookQueueStats(): Record<string, number> {
+  const rows = db.prepare(`
+    SELECT status, COUNT(*) as count FROM webhook_events GROUP BY status
+  `).all() as Array<{ status: string; count: number }>;
+
+  return Object.fromEntries(rows.map(row => [row.status, row.count]));
+}
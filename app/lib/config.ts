@@ -1,97 +1,416 @@
 /**
- * Configuration management for Clover multi-merchant setup
+ * Application configuration, validated once with zod
+ *
+ * Every setting the app reads from the environment (Clover, rate limits, sync,
+ * email, database, reports, scheduler) is parsed here; other modules call getAppConfig()
+ * instead of reading process.env. Invalid values raise a ConfigError listing
+ * every problem at once.
+ *
+ * Merchants come from a JSON file (CLOVER_MERCHANTS_FILE, default
+ * merchants.config.json) listing any number of merchants. Without the file,
+ * the legacy CLOVER_USD_* / CLOVER_CAD_* variables describe up to two merchants.
+ * Changes made from the admin page are layered on top in merchant-settings.ts.
  */
 
 import { config } from 'dotenv';
-import type { CloverConfig } from './clover-client';
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import type { CloverConfig, CloverRegion } from './clover-client';
 
 // Load environment variables
 config();
 
-export function getCloverConfigs(): CloverConfig[] {
-  const configs: CloverConfig[] = [];
+const CLOVER_REGIONS: CloverRegion[] = ['na', 'eu', 'la'];
+const LEGACY_CURRENCIES = ['USD', 'CAD'];
 
-  // USD Merchant Configuration
-  const usdMerchantId = process.env.CLOVER_USD_MERCHANT_ID;
-  const usdApiToken = process.env.CLOVER_USD_API_TOKEN;
+export class ConfigError extends Error {
+  readonly issues: string[];
 
-  if (usdMerchantId && usdApiToken) {
-    configs.push({
-      merchantId: usdMerchantId,
-      apiToken: usdApiToken,
-      environment: (process.env.CLOVER_ENV as 'sandbox' | 'production') || 'sandbox',
-      currency: 'USD',
-    });
+  constructor(message: string, issues: string[] = []) {
+    super(issues.length > 0 ? `${message}:\n  ${issues.join('\n  ')}` : message);
+    this.name = 'ConfigError';
+    this.issues = issues;
   }
+}
+
+// Unset and empty variables both mean "use the default"
+const env = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess(value => (value === '' ? undefined : value), schema);
+const envInt = (defaultValue: number) => env(z.coerce.number().int().nonnegative().default(defaultValue));
+const envPositiveInt = (defaultValue: number) => env(z.coerce.number().int().positive().default(defaultValue));
+const envBool = (defaultValue: boolean) =>
+  env(z.enum(['true', 'false']).default(defaultValue ? 'true' : 'false')).transform(value => value === 'true');
+
+/**
+ * Whether Intl knows the IANA time zone name, e.g. America/Toronto
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const EnvSchema = z.object({
+  CLOVER_MERCHANTS_FILE: env(z.string().default('merchants.config.json')),
+  CLOVER_ENV: env(z.enum(['sandbox', 'production']).default('production')),
+  CLOVER_REGION: env(z.string().toLowerCase().pipe(z.enum(['na', 'eu', 'la'])).default('na')),
+  CLOVER_REQUEST_TIMEOUT_MS: envPositiveInt(30000),
+  CLOVER_MAX_RETRIES: envInt(4),
+  CLOVER_RETRY_BASE_MS: envInt(1000),
+  CLOVER_RETRY_MAX_MS: envInt(30000),
+  CLOVER_RETRY_BUDGET: envInt(50),
+  CLOVER_SCHEMA_MODE: env(z.enum(['lenient', 'strict']).default('lenient')),
+  CLOVER_FIXTURE_MODE: env(z.enum(['off', 'record', 'replay']).default('off')),
+  CLOVER_FIXTURE_DIR: env(z.string().default('scripts/fixtures/clover')),
+
+  CLOVER_RATE_LIMIT_RPS: env(z.coerce.number().positive().optional()),
+  CLOVER_RATE_LIMIT_MS: env(z.coerce.number().int().positive().optional()),
+  CLOVER_RATE_LIMIT_BURST: envPositiveInt(5),
+  CLOVER_MAX_CONCURRENT_REQUESTS: envPositiveInt(3),
+
+  CLOVER_SYNC_ORDERS: envBool(true),
+  CLOVER_ORDERS_LOOKBACK_DAYS: envInt(0),
+  CLOVER_FULL_RECONCILE_DAYS: envInt(7),
+  CLOVER_INCREMENTAL_OVERLAP_MS: envInt(300000),
+  CLOVER_SYNC_LOCK_LEASE_MS: env(z.coerce.number().int().min(3000).default(120000)),
+
+  CLOVER_WEBHOOK_AUTH_CODE: env(z.string().optional()),
+  CLOVER_WEBHOOK_MAX_ATTEMPTS: envInt(5),
+  CLOVER_WEBHOOK_RETRY_DELAY_MS: envInt(60000),
+
+  CLOVER_APP_ID: env(z.string().optional()),
+  CLOVER_APP_SECRET: env(z.string().optional()),
+  CLOVER_OAUTH_REDIRECT_URI: env(z.string().url().default('http://localhost:5173/api/oauth/clover/callback')),
+  CLOVER_OAUTH_AUTHORIZE_URL: env(z.string().url().optional()),
+
+  SECRETS_MASTER_KEY: env(z.string().optional()),
+  SECRETS_MASTER_KEY_FILE: env(z.string().optional()),
 
-  // CAD Merchant Configuration
-  const cadMerchantId = process.env.CLOVER_CAD_MERCHANT_ID;
-  const cadApiToken = process.env.CLOVER_CAD_API_TOKEN;
-
-  if (cadMerchantId && cadApiToken) {
-    configs.push({
-      merchantId: cadMerchantId,
-      apiToken: cadApiToken,
-      environment: (process.env.CLOVER_ENV as 'sandbox' | 'production') || 'sandbox',
-      currency: 'CAD',
-    });
+  EMAIL_ENABLED: envBool(false),
+  EMAIL_CLIENT_ID: env(z.string().default('')),
+  EMAIL_CLIENT_SECRET: env(z.string().default('')),
+  EMAIL_TENANT_ID: env(z.string().default('')),
+  EMAIL_FROM: env(z.string().default('')),
+  EMAIL_RECIPIENT: env(z.string().default('')),
+
+  DATABASE_PATH: env(z.string().default('database.db')),
+
+  SERVER_URL: env(z.string().url().optional()),
+  REPORT_PAGE_FORMAT: env(z.enum(['letter', 'legal', 'a4']).default('letter')),
+  REPORT_PAGE_TIMEOUT_MS: envInt(30000),
+
+  SCHEDULER_ENABLED: envBool(true),
+  SCHEDULER_TIMEZONE: env(z.string().refine(isValidTimeZone, 'Unknown time zone').optional()),
+}).superRefine((values, ctx) => {
+  if (values.EMAIL_ENABLED) {
+    for (const key of ['EMAIL_CLIENT_ID', 'EMAIL_CLIENT_SECRET', 'EMAIL_TENANT_ID', 'EMAIL_FROM'] as const) {
+      if (!values[key]) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: 'Required when EMAIL_ENABLED=true' });
+      }
+    }
+  }
+  if (Boolean(values.CLOVER_APP_ID) !== Boolean(values.CLOVER_APP_SECRET)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['CLOVER_APP_SECRET'], message: 'CLOVER_APP_ID and CLOVER_APP_SECRET must be set together' });
   }
+});
+
+export interface AppConfig {
+  clover: {
+    merchantsFile: string;
+    environment: 'sandbox' | 'production';
+    region: CloverRegion;
+    requestTimeoutMs: number;
+    maxRetries: number;
+    retryBaseMs: number;
+    retryMaxMs: number;
+    retryBudget: number;
+    schemaMode: 'lenient' | 'strict';
+    fixtureMode: 'off' | 'record' | 'replay';
+    fixtureDir: string;
+  };
+  rateLimit: {
+    ratePerSecond: number;
+    burst: number;
+    maxConcurrent: number;
+  };
+  sync: {
+    syncOrders: boolean;
+    ordersLookbackDays: number;
+    fullReconcileDays: number;
+    incrementalOverlapMs: number;
+    lockLeaseMs: number;
+  };
+  webhooks: {
+    authCode?: string;
+    maxAttempts: number;
+    retryDelayMs: number;
+  };
+  oauth: {
+    appId?: string;
+    appSecret?: string;
+    redirectUri: string;
+    authorizeUrl?: string;
+  };
+  secrets: {
+    masterKey?: string;
+    masterKeyFile?: string;
+  };
+  email: {
+    enabled: boolean;
+    clientId: string;
+    clientSecret: string;
+    tenantId: string;
+    from: string;
+    recipient: string;
+  };
+  database: {
+    path: string;
+  };
+  reports: {
+    baseUrl?: string;
+    pageFormat: 'letter' | 'legal' | 'a4';
+    pageTimeoutMs: number;
+  };
+  scheduler: {
+    enabled: boolean;
+    timezone: string;
+  };
+}
+
+let appConfig: AppConfig | null = null;
 
-  if (configs.length === 0) {
-    throw new Error('No Clover merchant configurations found. Please set environment variables.');
+function parseAppConfig(): AppConfig {
+  const parsed = EnvSchema.safeParse(process.env);
+  if (!parsed.success) {
+    throw new ConfigError(
+      'Invalid configuration',
+      parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+    );
   }
 
-  return configs;
+  const values = parsed.data;
+  // CLOVER_RATE_LIMIT_MS (fixed delay between requests) is still honoured when no rate is set
+  const legacyRate = values.CLOVER_RATE_LIMIT_MS ? 1000 / values.CLOVER_RATE_LIMIT_MS : 5;
+
+  return {
+    clover: {
+      merchantsFile: path.resolve(values.CLOVER_MERCHANTS_FILE),
+      environment: values.CLOVER_ENV,
+      region: values.CLOVER_REGION,
+      requestTimeoutMs: values.CLOVER_REQUEST_TIMEOUT_MS,
+      maxRetries: values.CLOVER_MAX_RETRIES,
+      retryBaseMs: values.CLOVER_RETRY_BASE_MS,
+      retryMaxMs: values.CLOVER_RETRY_MAX_MS,
+      retryBudget: values.CLOVER_RETRY_BUDGET,
+      schemaMode: values.CLOVER_SCHEMA_MODE,
+      fixtureMode: values.CLOVER_FIXTURE_MODE,
+      fixtureDir: path.resolve(values.CLOVER_FIXTURE_DIR),
+    },
+    rateLimit: {
+      ratePerSecond: values.CLOVER_RATE_LIMIT_RPS ?? legacyRate,
+      burst: values.CLOVER_RATE_LIMIT_BURST,
+      maxConcurrent: values.CLOVER_MAX_CONCURRENT_REQUESTS,
+    },
+    sync: {
+      syncOrders: values.CLOVER_SYNC_ORDERS,
+      ordersLookbackDays: values.CLOVER_ORDERS_LOOKBACK_DAYS,
+      fullReconcileDays: values.CLOVER_FULL_RECONCILE_DAYS,
+      incrementalOverlapMs: values.CLOVER_INCREMENTAL_OVERLAP_MS,
+      lockLeaseMs: values.CLOVER_SYNC_LOCK_LEASE_MS,
+    },
+    webhooks: {
+      authCode: values.CLOVER_WEBHOOK_AUTH_CODE,
+      maxAttempts: values.CLOVER_WEBHOOK_MAX_ATTEMPTS,
+      retryDelayMs: values.CLOVER_WEBHOOK_RETRY_DELAY_MS,
+    },
+    oauth: {
+      appId: values.CLOVER_APP_ID,
+      appSecret: values.CLOVER_APP_SECRET,
+      redirectUri: values.CLOVER_OAUTH_REDIRECT_URI,
+      authorizeUrl: values.CLOVER_OAUTH_AUTHORIZE_URL,
+    },
+    secrets: {
+      masterKey: values.SECRETS_MASTER_KEY,
+      masterKeyFile: values.SECRETS_MASTER_KEY_FILE ? path.resolve(values.SECRETS_MASTER_KEY_FILE) : undefined,
+    },
+    email: {
+      enabled: values.EMAIL_ENABLED,
+      clientId: values.EMAIL_CLIENT_ID,
+      clientSecret: values.EMAIL_CLIENT_SECRET,
+      tenantId: values.EMAIL_TENANT_ID,
+      from: values.EMAIL_FROM,
+      recipient: values.EMAIL_RECIPIENT,
+    },
+    database: {
+      path: path.resolve(values.DATABASE_PATH),
+    },
+    reports: {
+      baseUrl: values.SERVER_URL,
+      pageFormat: values.REPORT_PAGE_FORMAT,
+      pageTimeoutMs: values.REPORT_PAGE_TIMEOUT_MS,
+    },
+    scheduler: {
+      enabled: values.SCHEDULER_ENABLED,
+      // Schedules without their own time zone use this one, else the server's
+      timezone: values.SCHEDULER_TIMEZONE ?? Intl.DateTimeFormat().resolvedOptions().timeZone,
+    },
+  };
+}
+
+/**
+ * Validated settings from the environment, parsed on first use
+ */
+export function getAppConfig(): AppConfig {
+  return (appConfig ??= parseAppConfig());
 }
 
-export function validateEnvironmentVariables(): void {
-  const requiredVars = [
-    'CLOVER_USD_MERCHANT_ID',
-    'CLOVER_USD_API_TOKEN',
-    'CLOVER_CAD_MERCHANT_ID', 
-    'CLOVER_CAD_API_TOKEN'
-  ];
+export const MerchantSettingsSchema = z.object({
+  id: z.string().min(1),                                        // Clover merchant ID
+  label: z.string().min(1),                                     // Shown on every screen and report
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Expected an ISO 4217 code such as CAD'),
+  environment: z.enum(['sandbox', 'production']).optional(),    // Defaults to CLOVER_ENV, then production
+  region: z.enum(['na', 'eu', 'la']).optional(),                // Defaults to CLOVER_REGION, then na
+  baseUrl: z.string().url().optional(),                         // e.g. the mock server
+  enabled: z.boolean().default(true),
+  apiTokenEnv: z.string().min(1).optional(),                    // Name of the env variable holding the API token
+});
 
-  const missing = requiredVars.filter(varName => !process.env[varName]);
+const MerchantsFileSchema = z.object({
+  merchants: z.array(MerchantSettingsSchema).min(1),
+}).superRefine((file, ctx) => {
+  const seen = new Set<string>();
+  file.merchants.forEach((merchant, index) => {
+    if (seen.has(merchant.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['merchants', index, 'id'], message: `Duplicate merchant ID ${merchant.id}` });
+    }
+    seen.add(merchant.id);
+  });
+});
 
-  if (missing.length > 0) {
-    console.warn(`Missing optional environment variables: ${missing.join(', ')}`);
-    console.warn('At least one merchant configuration (USD or CAD) is required.');
+export interface MerchantSettings {
+  id: string;
+  label: string;
+  currency: string;
+  environment: 'sandbox' | 'production';
+  region: CloverRegion;
+  baseUrl?: string;
+  enabled: boolean;
+  apiTokenEnv?: string;
+  source: 'file' | 'env' | 'admin';   // Where the merchant was first defined
+}
+
+export function getMerchantsFilePath(): string {
+  return getAppConfig().clover.merchantsFile;
+}
+
+/**
+ * Merchants described by CLOVER_{USD|CAD}_* variables (no config file)
+ */
+function loadLegacyMerchants(): MerchantSettings[] {
+  const defaults = getAppConfig().clover;
+
+  return LEGACY_CURRENCIES.flatMap(currency => {
+    const id = process.env[`CLOVER_${currency}_MERCHANT_ID`];
+    if (!id) return [];
+
+    const environment = process.env[`CLOVER_${currency}_ENV`] || defaults.environment;
+    if (environment !== 'sandbox' && environment !== 'production') {
+      throw new ConfigError(`Invalid CLOVER_${currency}_ENV: ${environment} (expected sandbox or production)`);
+    }
+    const region = (process.env[`CLOVER_${currency}_REGION`] || defaults.region).toLowerCase();
+    if (!CLOVER_REGIONS.includes(region as CloverRegion)) {
+      throw new ConfigError(`Invalid CLOVER_${currency}_REGION: ${region} (expected ${CLOVER_REGIONS.join(', ')})`);
+    }
+
+    return [{
+      id,
+      label: currency,
+      currency,
+      environment,
+      region: region as CloverRegion,
+      baseUrl: process.env[`CLOVER_${currency}_BASE_URL`] || undefined,
+      enabled: process.env[`CLOVER_${currency}_ENABLED`] === 'true',
+      apiTokenEnv: `CLOVER_${currency}_API_TOKEN`,
+      source: 'env' as const,
+    }];
+  });
+}
+
+// Re-read the file only when it changes
+let fileCache: { path: string; mtimeMs: number; merchants: MerchantSettings[] } | null = null;
+
+function loadMerchantsFile(filePath: string): MerchantSettings[] {
+  const { mtimeMs } = fs.statSync(filePath);
+  if (fileCache && fileCache.path === filePath && fileCache.mtimeMs === mtimeMs) {
+    return fileCache.merchants;
   }
 
-  // Check that at least one merchant is configured
-  const hasUsd = process.env.CLOVER_USD_MERCHANT_ID && process.env.CLOVER_USD_API_TOKEN;
-  const hasCad = process.env.CLOVER_CAD_MERCHANT_ID && process.env.CLOVER_CAD_API_TOKEN;
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new ConfigError(`Could not read merchants config ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
 
-  if (!hasUsd && !hasCad) {
-    throw new Error('At least one Clover merchant configuration is required (USD or CAD)');
+  const parsed = MerchantsFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new ConfigError(
+      `Invalid merchants config ${filePath}`,
+      parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+    );
   }
+
+  const defaults = getAppConfig().clover;
+  const merchants = parsed.data.merchants.map(merchant => ({
+    ...merchant,
+    environment: merchant.environment ?? defaults.environment,
+    region: merchant.region ?? defaults.region,
+    source: 'file' as const,
+  }));
+  fileCache = { path: filePath, mtimeMs, merchants };
+  return merchants;
 }
 
-export function getCloverConfigsWithStatus() {
-  const allConfigs = [];
-
-  // USD Configuration
-  if (process.env.CLOVER_USD_MERCHANT_ID && process.env.CLOVER_USD_API_TOKEN) {
-    allConfigs.push({
-      merchantId: process.env.CLOVER_USD_MERCHANT_ID,
-      apiToken: process.env.CLOVER_USD_API_TOKEN,
-      environment: (process.env.CLOVER_ENV || 'production') as 'sandbox' | 'production',
-      currency: 'USD' as const,
-      enabled: process.env.CLOVER_USD_ENABLED === 'true'
-    });
-  }
+/**
+ * Merchants from the merchants file (or legacy variables), before admin changes
+ */
+export function loadConfiguredMerchants(): MerchantSettings[] {
+  const filePath = getMerchantsFilePath();
+  return fs.existsSync(filePath) ? loadMerchantsFile(filePath) : loadLegacyMerchants();
+}
+
+export function toCloverConfig(merchant: MerchantSettings, apiToken: string): CloverConfig {
+  return {
+    merchantId: merchant.id,
+    apiToken,
+    environment: merchant.environment,
+    region: merchant.region,
+    baseUrl: merchant.baseUrl,
+    currency: merchant.currency,
+    label: merchant.label,
+  };
+}
 
-  // CAD Configuration  
-  if (process.env.CLOVER_CAD_MERCHANT_ID && process.env.CLOVER_CAD_API_TOKEN) {
-    allConfigs.push({
-      merchantId: process.env.CLOVER_CAD_MERCHANT_ID,
-      apiToken: process.env.CLOVER_CAD_API_TOKEN,
-      environment: (process.env.CLOVER_ENV || 'production') as 'sandbox' | 'production',
-      currency: 'CAD' as const,
-      enabled: process.env.CLOVER_CAD_ENABLED === 'true'
-    });
+// Settings whose values never leave the server
+const SECRET_SETTINGS = new Set(['appSecret', 'masterKey', 'clientSecret', 'authCode']);
+
+function redact(value: unknown, key = ''): unknown {
+  if (SECRET_SETTINGS.has(key)) {
+    return value ? '[redacted]' : null;
+  }
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    return Object.fromEntries(Object.entries(value).map(([childKey, child]) => [childKey, redact(child, childKey)]));
   }
+  return value ?? null;
+}
 
-  return allConfigs;
-}
\ No newline at end of file
+/**
+ * App settings in effect, secrets replaced, for the admin page
+ */
+export function getRedactedAppConfig(): Record<string, unknown> {
+  return redact(getAppConfig()) as Record<string, unknown>;
+}
@@ -1,7 +1,7 @@
 import Database from 'better-sqlite3';
-import path from 'path';
+import { getAppConfig } from './config';
 
-const dbPath = path.resolve(process.cwd(), 'database.db');
+const dbPath = getAppConfig().database.path;
 export const db = new Database(dbPath);
 
 // Enable foreign keys
@@ -19,6 +19,7 @@ export function initializeDatabase() {
       customerSince INTEGER,                  -- Clover camelCase, unix timestamp
       marketingAllowed INTEGER DEFAULT 0,     -- Clover camelCase
       lastSyncedAt INTEGER DEFAULT (unixepoch()),
+      deletedAt INTEGER,                      -- Gone from Clover (or deleted there), unix seconds
       createdAt INTEGER DEFAULT (unixepoch()),
       updatedAt INTEGER DEFAULT (unixepoch())
     );
@@ -44,6 +45,7 @@ export function initializeDatabase() {
       emailAddress TEXT NOT NULL,             -- Clover camelCase
       verifiedTime INTEGER,                   -- Clover camelCase
       primaryEmail INTEGER DEFAULT 0,         -- Clover camelCase
+      deletedAt INTEGER,                      -- Removed from the customer in Clover, unix seconds
       createdAt INTEGER DEFAULT (unixepoch()),
       FOREIGN KEY (customerId) REFERENCES customers(id) ON DELETE CASCADE
     );
@@ -52,6 +54,7 @@ export function initializeDatabase() {
       id TEXT PRIMARY KEY,                    -- Clover phone ID
       customerId TEXT NOT NULL,               -- Clover customer ID reference
       phoneNumber TEXT NOT NULL,              -- Clover camelCase
+      deletedAt INTEGER,                      -- Removed from the customer in Clover, unix seconds
       createdAt INTEGER DEFAULT (unixepoch()),
       FOREIGN KEY (customerId) REFERENCES customers(id) ON DELETE CASCADE
     );
@@ -69,6 +72,7 @@ export function initializeDatabase() {
       tokenType TEXT,                         -- Clover camelCase
       modifiedTime INTEGER,                   -- Clover camelCase
       additionalInfo TEXT,                    -- JSON string
+      deletedAt INTEGER,                      -- Removed from the customer in Clover, unix seconds
       createdAt INTEGER DEFAULT (unixepoch()),
       FOREIGN KEY (customerId) REFERENCES customers(id) ON DELETE CASCADE
     );
@@ -76,10 +80,37 @@ export function initializeDatabase() {
     CREATE TABLE IF NOT EXISTS orders (
       id TEXT PRIMARY KEY,                    -- Clover order ID
       customerId TEXT NOT NULL,               -- Clover customer ID reference
+      merchantId TEXT,                        -- Clover merchant ID
+      currency TEXT,                          -- Clover camelCase
+      total INTEGER,                          -- Clover camelCase, in cents
+      state TEXT,                             -- Clover camelCase (open, locked, ...)
+      paymentState TEXT,                      -- Clover camelCase (PAID, REFUNDED, ...)
+      createdTime INTEGER,                    -- Clover camelCase, ms timestamp
+      modifiedTime INTEGER,                   -- Clover camelCase, ms timestamp
       createdAt INTEGER DEFAULT (unixepoch()),
       FOREIGN KEY (customerId) REFERENCES customers(id) ON DELETE CASCADE
     );
 
+    CREATE TABLE IF NOT EXISTS payments (
+      id TEXT PRIMARY KEY,                    -- Clover payment ID
+      orderId TEXT NOT NULL,                  -- Clover order ID reference
+      customerId TEXT NOT NULL,               -- Clover customer ID reference
+      amount INTEGER,                         -- Clover camelCase, in cents
+      tipAmount INTEGER,                      -- Clover camelCase, in cents
+      result TEXT,                            -- Clover camelCase (SUCCESS, FAIL, ...)
+      tenderLabel TEXT,                       -- tender.label (Credit Card, Cash, ...)
+      cardType TEXT,                          -- cardTransaction.cardType
+      cardFirst6 TEXT,                        -- cardTransaction.first6
+      cardLast4 TEXT,                         -- cardTransaction.last4
+      cardEntryType TEXT,                     -- cardTransaction.entryType (VAULTED = card on file)
+      declineReason TEXT,                     -- Why a FAIL payment was declined
+      createdTime INTEGER,                    -- Clover camelCase, ms timestamp
+      modifiedTime INTEGER,                   -- Clover camelCase, ms timestamp
+      createdAt INTEGER DEFAULT (unixepoch()),
+      FOREIGN KEY (orderId) REFERENCES orders(id) ON DELETE CASCADE,
+      FOREIGN KEY (customerId) REFERENCES customers(id) ON DELETE CASCADE
+    );
+
     CREATE TABLE IF NOT EXISTS metadata (
       customerId TEXT PRIMARY KEY,           -- Clover customer ID (one-to-one)
       businessName TEXT,                      -- Clover camelCase
@@ -93,6 +124,156 @@ export function initializeDatabase() {
       FOREIGN KEY (customerId) REFERENCES customers(id) ON DELETE CASCADE
     );
 
+    CREATE TABLE IF NOT EXISTS schema_drift_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      merchantId TEXT NOT NULL,               -- Clover merchant ID
+      merchantCurrency TEXT NOT NULL,         -- USD or CAD
+      resource TEXT NOT NULL,                 -- API resource, e.g. customers
+      kind TEXT NOT NULL,                     -- new-field, type-change, missing-required
+      path TEXT NOT NULL,                     -- Field path, arrays collapsed to []
+      expected TEXT,                          -- Type our schema expects
+      received TEXT NOT NULL DEFAULT '',      -- Type Clover sent ('' when missing)
+      occurrences INTEGER DEFAULT 0,
+      firstSeenAt INTEGER DEFAULT (unixepoch()),
+      lastSeenAt INTEGER DEFAULT (unixepoch()),
+      UNIQUE (merchantId, resource, kind, path, received)
+    );
+
+    CREATE TABLE IF NOT EXISTS merchants (
+      id TEXT PRIMARY KEY,                    -- Clover merchant ID
+      currency TEXT NOT NULL,                 -- Configured merchant currency (USD or CAD)
+      name TEXT,                              -- Clover camelCase
+      phoneNumber TEXT,                       -- Clover camelCase
+      address1 TEXT,                          -- address.address1
+      city TEXT,                              -- address.city
+      state TEXT,                             -- address.state
+      zip TEXT,                               -- address.zip
+      country TEXT,                           -- address.country
+      timezone TEXT,                          -- properties.timezone
+      defaultCurrency TEXT,                   -- properties.defaultCurrency
+      rawMerchant TEXT,                       -- Full JSON for future fields
+      fetchedAt INTEGER DEFAULT (unixepoch())
+    );
+
+    CREATE TABLE IF NOT EXISTS oauth_tokens (
+      merchantId TEXT PRIMARY KEY,            -- Clover merchant ID
+      merchantCurrency TEXT NOT NULL,         -- USD or CAD
+      accessToken TEXT NOT NULL,              -- Encrypted (see secrets.ts)
+      refreshToken TEXT,                      -- Encrypted (see secrets.ts)
+      accessTokenExpiresAt INTEGER,           -- Unix seconds
+      refreshTokenExpiresAt INTEGER,          -- Unix seconds
+      connectedAt INTEGER DEFAULT (unixepoch()),
+      refreshedAt INTEGER,
+      refreshOwner TEXT,                      -- Process refreshing the token right now, if any
+      refreshLeaseExpiresAt INTEGER           -- ms timestamp; a refresh lease past this is abandoned
+    );
+
+    CREATE TABLE IF NOT EXISTS oauth_states (
+      state TEXT PRIMARY KEY,                 -- Random value echoed back by Clover
+      merchantId TEXT,                        -- Merchant being connected
+      merchantCurrency TEXT NOT NULL,
+      createdAt INTEGER DEFAULT (unixepoch())
+    );
+
+    CREATE TABLE IF NOT EXISTS merchant_settings (
+      merchantId TEXT PRIMARY KEY,            -- Clover merchant ID
+      label TEXT,                             -- NULL columns keep the merchants config value
+      currency TEXT,
+      environment TEXT,                       -- sandbox or production
+      region TEXT,                            -- na, eu or la
+      baseUrl TEXT,
+      enabled INTEGER,
+      apiToken TEXT,                          -- Encrypted (see secrets.ts), wins over apiTokenEnv
+      createdAt INTEGER DEFAULT (unixepoch()),
+      updatedAt INTEGER DEFAULT (unixepoch())
+    );
+
+    CREATE TABLE IF NOT EXISTS sync_state (
+      merchantId TEXT PRIMARY KEY,            -- Clover merchant ID
+      merchantCurrency TEXT NOT NULL,         -- USD or CAD
+      highWaterMark INTEGER,                  -- Latest Clover modifiedTime synced, ms timestamp
+      lastSuccessAt INTEGER,                  -- Last sync without errors, unix seconds
+      lastFullSyncAt INTEGER,                 -- Last successful full sync, unix seconds
+      lastMode TEXT,                          -- full or incremental
+      updatedAt INTEGER DEFAULT (unixepoch())
+    );
+
+    CREATE TABLE IF NOT EXISTS sync_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      trigger TEXT NOT NULL,                  -- cli, api or schedule
+      mode TEXT NOT NULL,                     -- Requested mode: auto, full or incremental
+      status TEXT NOT NULL DEFAULT 'running', -- running, success, partial (finished with errors), failed, cancelled
+      startedAt INTEGER DEFAULT (unixepoch()),
+      finishedAt INTEGER,
+      fetched INTEGER DEFAULT 0,              -- Customers received from Clover, all merchants
+      synced INTEGER DEFAULT 0,               -- Customers stored
+      failed INTEGER DEFAULT 0,               -- Customers that could not be stored
+      deleted INTEGER DEFAULT 0,              -- Customers soft-deleted by reconciliation
+      retries INTEGER DEFAULT 0,              -- Clover request retries
+      errorCount INTEGER DEFAULT 0,           -- Rows in sync_errors
+      merchantStats TEXT                      -- JSON, per-merchant breakdown
+    );
+
+    CREATE TABLE IF NOT EXISTS sync_errors (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      runId INTEGER NOT NULL,                 -- sync_runs.id
+      merchantId TEXT,                        -- Clover merchant ID (NULL for errors outside a merchant)
+      customerId TEXT,                        -- Clover customer ID when one customer failed
+      kind TEXT NOT NULL,                     -- CloverErrorKind: auth, rate-limited, schema, ...
+      status INTEGER,                         -- HTTP status from Clover
+      endpoint TEXT,
+      message TEXT NOT NULL,
+      description TEXT,                       -- Short explanation shown on the admin page
+      responseBody TEXT,                      -- Truncated Clover response
+      retries INTEGER,
+      createdAt INTEGER DEFAULT (unixepoch()),
+      FOREIGN KEY (runId) REFERENCES sync_runs(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS sync_locks (
+      name TEXT PRIMARY KEY,                  -- customer-sync
+      owner TEXT NOT NULL,                    -- Random ID of the holding sync
+      trigger TEXT NOT NULL,                  -- cli, api or schedule
+      hostname TEXT NOT NULL,
+      pid INTEGER NOT NULL,
+      runId INTEGER,                          -- sync_runs.id once the run has started
+      acquiredAt INTEGER NOT NULL,            -- ms timestamp
+      heartbeatAt INTEGER NOT NULL,           -- ms timestamp, renewed while the sync runs
+      expiresAt INTEGER NOT NULL              -- ms timestamp; after it, the lock can be taken over
+    );
+
+    CREATE TABLE IF NOT EXISTS schedules (
+      id TEXT PRIMARY KEY,                    -- e.g. daily-sync
+      label TEXT NOT NULL,
+      action TEXT NOT NULL,                   -- sync, report or sync-and-email
+      cronExpression TEXT NOT NULL,           -- node-cron syntax, optional seconds field
+      timezone TEXT,                          -- IANA zone, NULL for SCHEDULER_TIMEZONE
+      enabled INTEGER NOT NULL DEFAULT 0,
+      options TEXT,                           -- JSON: sync mode, report filters, recipient
+      lastRunAt INTEGER,
+      lastFinishedAt INTEGER,
+      lastStatus TEXT,                        -- running, success, failed or skipped
+      lastMessage TEXT,
+      createdAt INTEGER DEFAULT (unixepoch()),
+      updatedAt INTEGER DEFAULT (unixepoch())
+    );
+
+    CREATE TABLE IF NOT EXISTS webhook_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      merchantId TEXT NOT NULL,               -- Clover merchant ID from the payload
+      objectType TEXT NOT NULL,               -- Object ID prefix (C = customer, O = order, ...)
+      objectId TEXT NOT NULL,                 -- Clover object ID without the prefix
+      eventType TEXT NOT NULL,                -- CREATE, UPDATE or DELETE
+      ts INTEGER NOT NULL,                    -- Clover event time, ms timestamp
+      status TEXT NOT NULL DEFAULT 'pending', -- pending, processed, failed, ignored
+      attempts INTEGER DEFAULT 0,
+      lastError TEXT,
+      nextAttemptAt INTEGER,                  -- Unix seconds; a failed event is not retried before then
+      receivedAt INTEGER DEFAULT (unixepoch()),
+      processedAt INTEGER,
+      UNIQUE (merchantId, objectType, objectId, eventType, ts)
+    );
+
     -- Indexes for performance
     CREATE INDEX IF NOT EXISTS idx_customers_merchant ON customers(merchantId, merchantCurrency);
     CREATE INDEX IF NOT EXISTS idx_customers_since ON customers(customerSince);
@@ -104,8 +285,53 @@ export function initializeDatabase() {
     CREATE INDEX IF NOT EXISTS idx_cards_customer ON cards(customerId);
     CREATE INDEX IF NOT EXISTS idx_cards_expiration ON cards(expirationDate);
     CREATE INDEX IF NOT EXISTS idx_orders_customer ON orders(customerId);
+    CREATE INDEX IF NOT EXISTS idx_payments_customer ON payments(customerId, createdTime);
+    CREATE INDEX IF NOT EXISTS idx_payments_order ON payments(orderId);
     CREATE INDEX IF NOT EXISTS idx_metadata_business ON metadata(businessName);
+    CREATE INDEX IF NOT EXISTS idx_schema_drift_seen ON schema_drift_events(lastSeenAt);
+    CREATE INDEX IF NOT EXISTS idx_webhook_events_status ON webhook_events(status, receivedAt);
+    CREATE INDEX IF NOT EXISTS idx_sync_runs_started ON sync_runs(startedAt);
+    CREATE INDEX IF NOT EXISTS idx_sync_errors_run ON sync_errors(runId);
   `);
+
+  migrateDatabase();
+
+  // The jobs scripts/install-cron-jobs.sh sets up on the host, disabled until turned on from the admin page
+  db.exec(`
+    INSERT OR IGNORE INTO schedules (id, label, action, cronExpression, options) VALUES
+      ('daily-sync', 'Daily sync', 'sync', '0 6 * * *', '{"mode":"auto"}'),
+      ('monthly-reports', 'Monthly sync and card reports', 'sync-and-email', '0 8 1 * *', '{"mode":"auto","filters":["expired","expiring"]}');
+  `);
+}
+
+/**
+ * Add a column to an existing table if an older database doesn't have it yet
+ */
+function addColumnIfMissing(table: string, column: string, definition: string) {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (!columns.some(existing => existing.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+// Bring databases created by earlier versions up to the current schema
+function migrateDatabase() {
+  addColumnIfMissing('orders', 'merchantId', 'TEXT');
+  addColumnIfMissing('orders', 'currency', 'TEXT');
+  addColumnIfMissing('orders', 'total', 'INTEGER');
+  addColumnIfMissing('orders', 'state', 'TEXT');
+  addColumnIfMissing('orders', 'paymentState', 'TEXT');
+  addColumnIfMissing('orders', 'createdTime', 'INTEGER');
+  addColumnIfMissing('orders', 'modifiedTime', 'INTEGER');
+  addColumnIfMissing('payments', 'cardEntryType', 'TEXT');
+  addColumnIfMissing('payments', 'declineReason', 'TEXT');
+  addColumnIfMissing('oauth_states', 'merchantId', 'TEXT');
+  addColumnIfMissing('webhook_events', 'nextAttemptAt', 'INTEGER');
+  addColumnIfMissing('oauth_tokens', 'refreshOwner', 'TEXT');
+  addColumnIfMissing('oauth_tokens', 'refreshLeaseExpiresAt', 'INTEGER');
+  for (const table of ['customers', 'emailAddresses', 'phoneNumbers', 'cards']) {
+    addColumnIfMissing(table, 'deletedAt', 'INTEGER');
+  }
 }
 
 // Initialize on import
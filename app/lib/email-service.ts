@@ -1,5 +1,8 @@
 import { Client } from '@microsoft/microsoft-graph-client';
 import { ClientSecretCredential } from '@azure/identity';
+import { getMerchantProfiles } from './merchants';
+import { getAppConfig } from './config';
+import { revealSecret } from './secrets';
 
 interface EmailConfig {
   clientId: string;
@@ -15,14 +18,7 @@ export class EmailService {
   private config: EmailConfig;
 
   constructor() {
-    this.config = {
-      clientId: process.env.EMAIL_CLIENT_ID || '',
-      clientSecret: process.env.EMAIL_CLIENT_SECRET || '',
-      tenantId: process.env.EMAIL_TENANT_ID || '',
-      from: process.env.EMAIL_FROM || '',
-      recipient: process.env.EMAIL_RECIPIENT || '',
-      enabled: process.env.EMAIL_ENABLED === 'true'
-    };
+    this.config = { ...getAppConfig().email };
   }
 
   private async initializeClient(): Promise<void> {
@@ -39,7 +35,7 @@ export class EmailService {
       const credential = new ClientSecretCredential(
         this.config.tenantId,
         this.config.clientId,
-        this.config.clientSecret
+        revealSecret(this.config.clientSecret)
       );
 
       // Initialize Graph client with custom authentication
@@ -82,10 +78,11 @@ export class EmailService {
       const recipient = customRecipient || this.config.recipient;
       const timestamp = new Date().toISOString().split('T')[0];
       const filename = `Clover_Customers_${filter}_${timestamp}.pdf`;
+      const merchantLabels = getMerchantProfiles().map(merchant => merchant.label).join(', ');
 
       // Create email message
       const message = {
-        subject: `Clover Customer Report - ${this.getFilterDisplayName(filter)} (${totalCustomers} customers)`,
+        subject: `Clover Customer Report - ${this.getFilterDisplayName(filter)}${merchantLabels ? ` - ${merchantLabels}` : ''} (${totalCustomers} customers)`,
         body: {
           contentType: 'html' as const,
           content: `
@@ -93,6 +90,7 @@ export class EmailService {
               <body>
                 <h2>Clover Customer Follow-up Report</h2>
                 <p><strong>Report Type:</strong> ${this.getFilterDisplayName(filter)}</p>
+                ${merchantLabels ? `<p><strong>Merchants:</strong> ${merchantLabels}</p>` : ''}
                 <p><strong>Total Customers:</strong> ${totalCustomers}</p>
                 <p><strong>Generated:</strong> ${new Date().toLocaleDateString('en-CA')} at ${new Date().toLocaleTimeString('en-CA')}</p>
                 <p>Please find the attached PDF report for customer follow-up actions.</p>
@@ -145,6 +143,7 @@ export class EmailService {
   private getFilterDisplayName(filter: string): string {
     switch (filter) {
       case 'action-required': return 'Action Required';
+      case 'payment-failed': return 'Failed Payments';
       case 'expired': return 'Expired Cards';
       case 'expiring': return 'Expiring Soon';
       case 'no-cards': return 'No Payment Methods';
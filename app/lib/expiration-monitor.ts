@@ -2,15 +2,12 @@
  * Main service for monitoring credit card expiration across multiple Clover merchants
  */
 
-import { MultiMerchantCloverClient } from './clover-client';
-import { CardExpirationAnalyzer, type CustomerWithExpiration } from './card-expiration-analyzer';
-import { getCloverConfigs } from './config';
+import { MultiMerchantCloverClient, type MerchantError } from './clover-client';
+import { CardExpirationAnalyzer, formatCustomerForNotification, type CustomerWithExpiration } from './card-expiration-analyzer';
+import { getCloverConfigs, getMerchantSettings } from './merchant-settings';
+import { resolveMerchantCredentials } from './clover-oauth';
 
-export interface MerchantError {
-  currency: string;
-  error: string;
-  status?: number;
-}
+export type { MerchantError };
 
 export interface ExpirationMonitorResult {
   summary: {
@@ -25,10 +22,7 @@ export interface ExpirationMonitorResult {
     expiringSoon: CustomerWithExpiration[];
     expiringLater: CustomerWithExpiration[];
   };
-  byMerchant: {
-    USD?: CustomerWithExpiration[];
-    CAD?: CustomerWithExpiration[];
-  };
+  byMerchant: Record<string, CustomerWithExpiration[]>;   // Keyed by merchant label
   merchantErrors: MerchantError[];
 }
 
@@ -37,7 +31,11 @@ export class ExpirationMonitorService {
   private analyzer: CardExpirationAnalyzer;
 
   constructor() {
-    const configs = getCloverConfigs();
+    // Prefer OAuth tokens for merchants connected from the admin page
+    const configs = getCloverConfigs().map(config => ({
+      ...config,
+      ...resolveMerchantCredentials(config.merchantId, config.apiToken),
+    }));
     this.multiClient = new MultiMerchantCloverClient(configs);
     this.analyzer = new CardExpirationAnalyzer();
   }
@@ -58,13 +56,12 @@ export class ExpirationMonitorService {
       // Generate summary
       const summary = this.analyzer.generateSummary(analyzedCustomers);
 
-      // Group by merchant currency
+      // Group by merchant label
       const byMerchant: ExpirationMonitorResult['byMerchant'] = {};
-      const usdCustomers = analyzedCustomers.filter(c => c.merchantCurrency === 'USD');
-      const cadCustomers = analyzedCustomers.filter(c => c.merchantCurrency === 'CAD');
-      
-      if (usdCustomers.length > 0) byMerchant.USD = usdCustomers;
-      if (cadCustomers.length > 0) byMerchant.CAD = cadCustomers;
+      for (const customer of analyzedCustomers) {
+        const label = customer.merchantLabel || customer.merchantCurrency;
+        (byMerchant[label] ??= []).push(customer);
+      }
 
       return {
         summary,
@@ -91,12 +88,13 @@ export class ExpirationMonitorService {
   }
 
   /**
-   * Get customers by merchant currency
+   * Get customers of one merchant
    */
-  async getCustomersByCurrency(currency: 'USD' | 'CAD'): Promise<CustomerWithExpiration[]> {
-    const customers = await this.multiClient.getCustomersByCurrency(currency);
+  async getCustomersByMerchant(merchantId: string): Promise<CustomerWithExpiration[]> {
+    const merchant = getMerchantSettings(merchantId);
+    const customers = await this.multiClient.getCustomersByMerchant(merchantId);
     return this.analyzer.analyzeCustomers(
-      customers.map(c => ({ ...c, merchantCurrency: currency }))
+      customers.map(c => ({ ...c, merchantCurrency: merchant?.currency ?? '', merchantLabel: merchant?.label }))
     );
   }
 
@@ -104,27 +102,6 @@ export class ExpirationMonitorService {
    * Format customer data for notifications
    */
   formatCustomerForNotification(customer: CustomerWithExpiration) {
-    const primaryEmail = customer.emailAddresses?.[0]?.emailAddress;
-    const primaryPhone = customer.phoneNumbers?.[0]?.phoneNumber;
-    const name = `${customer.firstName || ''} ${customer.lastName || ''}`.trim();
-
-    const expiringCards = customer.expirationAnalysis
-      .filter(analysis => ['expired', 'expiring-soon'].includes(analysis.expiration.status))
-      .map(analysis => ({
-        cardType: analysis.card.cardType,
-        last4: analysis.card.last4,
-        expirationDate: analysis.card.expirationDate,
-        daysUntilExpiration: analysis.expiration.daysUntilExpiration,
-        status: analysis.expiration.status,
-      }));
-
-    return {
-      customerId: customer.id,
-      name: name || 'Customer',
-      email: primaryEmail,
-      phone: primaryPhone,
-      merchantCurrency: customer.merchantCurrency,
-      expiringCards,
-    };
+    return formatCustomerForNotification(customer);
   }
 }
\ No newline at end of file
@@ -0,0 +1,158 @@
+/**
+ * Connectivity and permission check for one merchant, run from the admin page
+ *
+ * The same probes scripts/test-usd-access.ts and test-cad-access.ts make by
+ * hand (merchant read, customer list, card expand), with the merchant's
+ * current credentials. Each probe is timed and a failure says which
+ * permission is missing instead of a raw Clover error.
+ */
+
+import { CloverClient, resolveCloverBaseUrl } from './clover-client';
+import { CloverAuthError, CloverRateLimitError, serializeCloverError } from './clover-errors';
+import { toCloverConfig } from './config';
+import { getMerchantApiToken, getMerchantSettings } from './merchant-settings';
+import { getOAuthTokenStatus, resolveMerchantCredentials } from './clover-oauth';
+
+export type MerchantProbeName = 'merchant' | 'customers' | 'cards' | 'rate-limit';
+
+export interface MerchantProbe {
+  name: MerchantProbeName;
+  permission: string;
+  passed: boolean;
+  status: number | null;
+  latencyMs: number | null;
+  message: string;
+}
+
+export interface MerchantCheckReport {
+  merchantId: string;
+  label: string;
+  apiHost: string;
+  authentication: 'oauth' | 'api-token';
+  passed: boolean;
+  probes: MerchantProbe[];
+  checkedAt: string;
+}
+
+type ProbeOutcome =
+  | { ok: true; body: any; headers: Headers; latencyMs: number }
+  | { ok: false; error: unknown; latencyMs: number };
+
+// Headers Clover (or a proxy in front of it) may use to report throttling
+const RATE_LIMIT_HEADER = /^(x-)?rate-?limit|^retry-after$/i;
+
+async function timed(request: () => Promise<{ body: unknown; headers: Headers }>): Promise<ProbeOutcome> {
+  const started = Date.now();
+  try {
+    const { body, headers } = await request();
+    return { ok: true, body, headers, latencyMs: Date.now() - started };
+  } catch (error) {
+    return { ok: false, error, latencyMs: Date.now() - started };
+  }
+}
+
+function describeFailure(error: unknown, permission: string, label: string): string {
+  if (error instanceof CloverAuthError) {
+    return error.status === 403
+      ? `Token lacks the ${permission} permission`
+      : 'Token expired, revoked or invalid';
+  }
+  return serializeCloverError(error, label).description;
+}
+
+function toProbe(
+  name: MerchantProbeName,
+  permission: string,
+  outcome: ProbeOutcome,
+  label: string,
+  describe: (body: any) => { passed: boolean; message: string }
+): MerchantProbe {
+  if (!outcome.ok) {
+    const status = (outcome.error as { status?: number }).status ?? null;
+    return { name, permission, passed: false, status, latencyMs: outcome.latencyMs, message: describeFailure(outcome.error, permission, label) };
+  }
+  return { name, permission, ...describe(outcome.body), status: 200, latencyMs: outcome.latencyMs };
+}
+
+/**
+ * Probe a merchant's Clover access; throws only when the merchant is unknown or has no credentials
+ */
+export async function checkMerchant(merchantId: string): Promise<MerchantCheckReport> {
+  const merchant = getMerchantSettings(merchantId);
+  if (!merchant) {
+    throw new Error(`Merchant ${merchantId} not found`);
+  }
+
+  const credentials = resolveMerchantCredentials(merchant.id, getMerchantApiToken(merchant));
+  if (!credentials) {
+    throw new Error(`${merchant.label} has no API token or OAuth connection`);
+  }
+
+  // No refreshAccessToken: a check reports the token as it is
+  const config = toCloverConfig(merchant, credentials.apiToken);
+  const client = new CloverClient(config);
+  const label = merchant.label;
+
+  // Sequential, so the latencies are not skewed by the client's concurrency limit
+  const merchantRead = await timed(() => client.probe());
+  const customerList = await timed(() => client.probe('/customers?limit=1'));
+  const cardExpand = await timed(() => client.probe('/customers?expand=cards&limit=10'));
+  const outcomes = [merchantRead, customerList, cardExpand];
+
+  const probes: MerchantProbe[] = [
+    toProbe('merchant', 'Merchant read', merchantRead, label, body => ({
+      passed: true,
+      message: `Read merchant ${body?.name || merchantId}`,
+    })),
+    toProbe('customers', 'Customers read', customerList, label, body => ({
+      passed: Array.isArray(body?.elements),
+      message: Array.isArray(body?.elements) ? 'Customer list readable' : 'Unexpected customer list response',
+    })),
+    toProbe('cards', 'Customer cards', cardExpand, label, body => {
+      const customers: any[] = Array.isArray(body?.elements) ? body.elements : [];
+      if (customers.length === 0) {
+        return { passed: true, message: 'No customers to expand cards on' };
+      }
+      // Without the permission Clover answers 200 but leaves the expansion out
+      const expanded = customers.filter(customer => customer.cards !== undefined).length;
+      return expanded > 0
+        ? { passed: true, message: `Cards expanded on ${expanded} of ${customers.length} customers` }
+        : { passed: false, message: 'Cards not returned: the token cannot read card details' };
+    }),
+  ];
+
+  const throttled = outcomes.find(outcome => !outcome.ok && outcome.error instanceof CloverRateLimitError);
+  const headers = new Map<string, string>();
+  for (const outcome of outcomes) {
+    if (!outcome.ok) continue;
+    outcome.headers.forEach((value, key) => {
+      if (RATE_LIMIT_HEADER.test(key)) headers.set(key, value);
+    });
+  }
+  const retryAfterMs = throttled && !throttled.ok ? (throttled.error as CloverRateLimitError).retryAfterMs : undefined;
+  probes.push({
+    name: 'rate-limit',
+    permission: 'Rate limit',
+    passed: !throttled,
+    status: throttled ? 429 : null,
+    latencyMs: null,
+    message: throttled
+      ? `Rate limited by Clover${retryAfterMs !== undefined ? ` (retry after ${Math.ceil(retryAfterMs / 1000)}s)` : ''}`
+      : headers.size > 0
+        ? [...headers].map(([key, value]) => `${key}: ${value}`).join(', ')
+        : 'Not throttled; no rate-limit headers reported',
+  });
+
+  const report: MerchantCheckReport = {
+    merchantId,
+    label,
+    apiHost: resolveCloverBaseUrl(config),
+    authentication: getOAuthTokenStatus(merchantId) ? 'oauth' : 'api-token',
+    passed: probes.every(probe => probe.passed),
+    probes,
+    checkedAt: new Date().toISOString(),
+  };
+  console.log(`[Merchants] Check ${label} (${merchantId}):`, probes.map(probe => `${probe.name}=${probe.passed ? 'ok' : 'fail'}`).join(', '));
+
+  return report;
+}
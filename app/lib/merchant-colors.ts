@@ -0,0 +1,50 @@
+/**
+ * Merchant grouping and badge colors shared by screens and printed reports
+ *
+ * Safe to import from components (no server-only dependencies).
+ */
+
+// Tailwind classes for screens, hex colors for print
+const MERCHANT_COLORS = [
+  { badge: 'bg-blue-100 text-blue-700', hex: '#1e40af' },
+  { badge: 'bg-green-100 text-green-700', hex: '#059669' },
+  { badge: 'bg-purple-100 text-purple-700', hex: '#7c3aed' },
+  { badge: 'bg-amber-100 text-amber-800', hex: '#b45309' },
+  { badge: 'bg-pink-100 text-pink-700', hex: '#be185d' },
+  { badge: 'bg-teal-100 text-teal-700', hex: '#0f766e' },
+];
+
+export interface MerchantGroup<T> {
+  label: string;
+  customers: T[];
+}
+
+export function getMerchantDisplayLabel(customer: { merchantLabel?: string | null; merchantCurrency?: string | null }): string {
+  return customer.merchantLabel || customer.merchantCurrency || 'Unknown merchant';
+}
+
+/**
+ * Split customers into one group per merchant label (labels sorted, customer order kept)
+ */
+export function groupByMerchantLabel<T extends { merchantLabel?: string | null; merchantCurrency?: string | null }>(
+  customers: T[]
+): MerchantGroup<T>[] {
+  const groups = new Map<string, T[]>();
+  for (const customer of customers) {
+    const label = getMerchantDisplayLabel(customer);
+    if (!groups.has(label)) groups.set(label, []);
+    groups.get(label)!.push(customer);
+  }
+
+  return [...groups.keys()]
+    .sort((a, b) => a.localeCompare(b))
+    .map(label => ({ label, customers: groups.get(label)! }));
+}
+
+/**
+ * Color for a merchant, by its position in the sorted list of labels on the page
+ */
+export function getMerchantColor(labels: string[], label: string): { badge: string; hex: string } {
+  const index = [...labels].sort((a, b) => a.localeCompare(b)).indexOf(label);
+  return MERCHANT_COLORS[Math.max(0, index) % MERCHANT_COLORS.length];
+}
@@ -0,0 +1,295 @@
+/**
+ * Merchant settings managed from the admin page
+ *
+ * The merchants config (file or legacy variables) is the starting point; rows
+ * in merchant_settings override its fields (label, enabled, API token, ...) or
+ * add merchants that exist only in the database. Everything here reads SQLite
+ * on each call, so the sync service and dashboard pick up changes without a
+ * restart.
+ */
+
+import path from 'path';
+import { z } from 'zod';
+import { db } from './db';
+import { protectSecret, revealSecret } from './secrets';
+import {
+  ConfigError,
+  MerchantSettingsSchema,
+  getAppConfig,
+  getMerchantsFilePath,
+  getRedactedAppConfig,
+  loadConfiguredMerchants,
+  toCloverConfig,
+  type MerchantSettings,
+} from './config';
+import type { CloverConfig } from './clover-client';
+
+interface MerchantSettingsRow {
+  merchantId: string;
+  label: string | null;
+  currency: string | null;
+  environment: 'sandbox' | 'production' | null;
+  region: MerchantSettings['region'] | null;
+  baseUrl: string | null;
+  enabled: number | null;
+  apiToken: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const NewMerchantSchema = MerchantSettingsSchema.omit({ apiTokenEnv: true }).extend({
+  apiToken: z.string().min(1).optional(),
+});
+
+// null clears an override so the merchants config value (or the default) applies again
+const MerchantChangesSchema = MerchantSettingsSchema.pick({
+  label: true,
+  enabled: true,
+}).partial().extend({
+  environment: MerchantSettingsSchema.shape.environment.unwrap().nullable().optional(),
+  region: MerchantSettingsSchema.shape.region.unwrap().nullable().optional(),
+  baseUrl: MerchantSettingsSchema.shape.baseUrl.unwrap().nullable().optional(),
+});
+
+export type NewMerchantInput = z.input<typeof NewMerchantSchema>;
+export type MerchantChanges = z.input<typeof MerchantChangesSchema>;
+
+function getRows(): MerchantSettingsRow[] {
+  return db.prepare('SELECT * FROM merchant_settings').all() as MerchantSettingsRow[];
+}
+
+function getRow(merchantId: string): MerchantSettingsRow | undefined {
+  return db.prepare('SELECT * FROM merchant_settings WHERE merchantId = ?').get(merchantId) as MerchantSettingsRow | undefined;
+}
+
+function applyOverrides(merchant: MerchantSettings, row: MerchantSettingsRow | undefined): MerchantSettings {
+  if (!row) return merchant;
+
+  return {
+    ...merchant,
+    label: row.label ?? merchant.label,
+    currency: row.currency ?? merchant.currency,
+    environment: row.environment ?? merchant.environment,
+    region: row.region ?? merchant.region,
+    baseUrl: row.baseUrl ?? merchant.baseUrl,
+    enabled: row.enabled === null ? merchant.enabled : row.enabled === 1,
+  };
+}
+
+function parseIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.join('.') || 'value'}: ${issue.message}`);
+}
+
+/**
+ * Every merchant, enabled or not: the merchants config with admin changes applied
+ */
+export function loadMerchantSettings(): MerchantSettings[] {
+  const rows = new Map(getRows().map(row => [row.merchantId, row]));
+  const configured = loadConfiguredMerchants();
+  const merchants = configured.map(merchant => applyOverrides(merchant, rows.get(merchant.id)));
+
+  // Merchants added from the admin page
+  const defaults = getAppConfig().clover;
+  for (const row of rows.values()) {
+    if (configured.some(merchant => merchant.id === row.merchantId) || !row.label || !row.currency) continue;
+    merchants.push({
+      id: row.merchantId,
+      label: row.label,
+      currency: row.currency,
+      environment: row.environment ?? defaults.environment,
+      region: row.region ?? defaults.region,
+      baseUrl: row.baseUrl ?? undefined,
+      enabled: row.enabled !== 0,
+      source: 'admin',
+    });
+  }
+
+  return merchants;
+}
+
+export function getMerchantSettings(merchantId: string): MerchantSettings | undefined {
+  return loadMerchantSettings().find(merchant => merchant.id === merchantId);
+}
+
+/**
+ * Whether the admin page changed anything for this merchant
+ */
+export function hasMerchantOverrides(merchantId: string): boolean {
+  return getRow(merchantId) !== undefined;
+}
+
+export function hasStoredApiToken(merchantId: string): boolean {
+  return Boolean(getRow(merchantId)?.apiToken);
+}
+
+/**
+ * API token for a merchant: the one saved from the admin page, else its apiTokenEnv variable
+ * (plaintext or encrypted); merchants connected through OAuth may have neither
+ */
+export function getMerchantApiToken(merchant: MerchantSettings): string | undefined {
+  const stored = getRow(merchant.id)?.apiToken;
+  if (stored) {
+    try {
+      return revealSecret(stored);
+    } catch (error) {
+      console.warn(`[Merchants] Could not decrypt stored API token for ${merchant.label}:`, error instanceof Error ? error.message : error);
+    }
+  }
+  return merchant.apiTokenEnv ? revealSecret(process.env[merchant.apiTokenEnv] || undefined) : undefined;
+}
+
+/**
+ * Client configs for enabled merchants that have an API token
+ */
+export function getCloverConfigs(): CloverConfig[] {
+  const configs = loadMerchantSettings()
+    .filter(merchant => merchant.enabled)
+    .flatMap(merchant => {
+      const apiToken = getMerchantApiToken(merchant);
+      return apiToken ? [toCloverConfig(merchant, apiToken)] : [];
+    });
+
+  if (configs.length === 0) {
+    throw new ConfigError('No Clover merchant configurations found. Add a merchant from the admin page or the merchants config and set its API token.');
+  }
+
+  return configs;
+}
+
+export function validateEnvironmentVariables(): void {
+  // Throws on invalid settings or an invalid merchants file
+  getAppConfig();
+  const merchants = loadMerchantSettings();
+
+  const missingTokens = merchants
+    .filter(merchant => merchant.enabled && merchant.apiTokenEnv && !getMerchantApiToken(merchant))
+    .map(merchant => `${merchant.label} (${merchant.apiTokenEnv})`);
+
+  if (missingTokens.length > 0) {
+    console.warn(`Merchants without an API token: ${missingTokens.join(', ')}`);
+    console.warn('They need a token or an OAuth connection from the admin page.');
+  }
+
+  if (!merchants.some(merchant => merchant.enabled)) {
+    throw new ConfigError(`At least one enabled Clover merchant is required (admin page, ${path.basename(getMerchantsFilePath())} or CLOVER_USD_* / CLOVER_CAD_*)`);
+  }
+}
+
+/**
+ * Add a merchant that is not in the merchants config
+ */
+export function addMerchant(input: NewMerchantInput): MerchantSettings {
+  const parsed = NewMerchantSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new ConfigError('Invalid merchant', parseIssues(parsed.error));
+  }
+
+  const merchant = parsed.data;
+  if (getMerchantSettings(merchant.id)) {
+    throw new ConfigError(`Merchant ${merchant.id} already exists`);
+  }
+
+  db.prepare(`
+    INSERT INTO merchant_settings (merchantId, label, currency, environment, region, baseUrl, enabled, apiToken)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(merchantId) DO UPDATE SET
+      label = excluded.label,
+      currency = excluded.currency,
+      environment = excluded.environment,
+      region = excluded.region,
+      baseUrl = excluded.baseUrl,
+      enabled = excluded.enabled,
+      apiToken = excluded.apiToken,
+      updatedAt = unixepoch()
+  `).run(
+    merchant.id,
+    merchant.label,
+    merchant.currency,
+    merchant.environment ?? null,
+    merchant.region ?? null,
+    merchant.baseUrl ?? null,
+    merchant.enabled ? 1 : 0,
+    merchant.apiToken ? protectSecret(merchant.apiToken) : null
+  );
+  console.log(`[Merchants] Added ${merchant.label} (${merchant.id})`);
+
+  return getMerchantSettings(merchant.id)!;
+}
+
+/**
+ * Relabel, enable/disable or re-point a merchant; only the given fields change,
+ * and null clears an environment, region or base URL override
+ */
+export function updateMerchantSettings(merchantId: string, changes: MerchantChanges): MerchantSettings {
+  const merchant = getMerchantSettings(merchantId);
+  if (!merchant) {
+    throw new ConfigError(`Merchant ${merchantId} not found`);
+  }
+
+  const parsed = MerchantChangesSchema.safeParse(changes);
+  if (!parsed.success) {
+    throw new ConfigError('Invalid merchant settings', parseIssues(parsed.error));
+  }
+
+  // Only the keys present change; the schema strips anything that isn't a column
+  const columns = Object.entries(parsed.data).filter(([, value]) => value !== undefined);
+  db.prepare('INSERT INTO merchant_settings (merchantId) VALUES (?) ON CONFLICT(merchantId) DO NOTHING').run(merchantId);
+  db.prepare(`
+    UPDATE merchant_settings SET
+      ${columns.map(([column]) => `${column} = ?, `).join('')}updatedAt = unixepoch()
+    WHERE merchantId = ?
+  `).run(
+    ...columns.map(([, value]) => typeof value === 'boolean' ? (value ? 1 : 0) : value),
+    merchantId
+  );
+
+  const updated = getMerchantSettings(merchantId)!;
+  console.log(`[Merchants] Updated ${updated.label} (${merchantId}):`, Object.keys(parsed.data).join(', '));
+  return updated;
+}
+
+/**
+ * Save a new API token for a merchant (encrypted when a master key is set); it replaces the apiTokenEnv token
+ */
+export function setMerchantApiToken(merchantId: string, apiToken: string): void {
+  const merchant = getMerchantSettings(merchantId);
+  if (!merchant) {
+    throw new ConfigError(`Merchant ${merchantId} not found`);
+  }
+  if (!apiToken.trim()) {
+    throw new ConfigError('API token is required');
+  }
+
+  db.prepare(`
+    INSERT INTO merchant_settings (merchantId, apiToken) VALUES (?, ?)
+    ON CONFLICT(merchantId) DO UPDATE SET apiToken = excluded.apiToken, updatedAt = unixepoch()
+  `).run(merchantId, protectSecret(apiToken.trim()));
+  console.log(`[Merchants] Rotated API token for ${merchant.label} (${merchantId})`);
+}
+
+/**
+ * Drop admin changes: merchants added from the admin page are removed,
+ * configured merchants go back to their merchants config values
+ */
+export function resetMerchantSettings(merchantId: string): void {
+  db.prepare('DELETE FROM merchant_settings WHERE merchantId = ?').run(merchantId);
+  console.log(`[Merchants] Reset settings for ${merchantId}`);
+}
+
+/**
+ * The configuration in effect, secrets replaced, for the admin page
+ *
+ * Merchant API tokens are reported as set or missing, never shown.
+ */
+export function getEffectiveConfig() {
+  return {
+    ...getRedactedAppConfig(),
+    merchants: loadMerchantSettings().map(merchant => ({
+      ...merchant,
+      baseUrl: merchant.baseUrl ?? null,
+      apiTokenEnv: merchant.apiTokenEnv ?? null,
+      apiTokenSet: Boolean(getMerchantApiToken(merchant)),
+      apiTokenStored: hasStoredApiToken(merchant.id),
+    })),
+  };
+}
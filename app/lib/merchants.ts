@@ -0,0 +1,117 @@
+/**
+ * Merchant profiles cached from Clover during sync
+ *
+ * Lets screens and reports say "Montreal Studio (CAD)" instead of a bare
+ * currency code or merchant ID. A label set in the merchants config wins.
+ */
+
+import { db } from './db';
+import { CloverClient, type Merchant } from './clover-client';
+import { toCloverConfig } from './config';
+import { getMerchantApiToken, getMerchantSettings } from './merchant-settings';
+import { resolveMerchantCredentials } from './clover-oauth';
+
+export interface MerchantProfile {
+  id: string;
+  currency: string;
+  name: string | null;
+  phoneNumber: string | null;
+  address1: string | null;
+  city: string | null;
+  state: string | null;
+  zip: string | null;
+  country: string | null;
+  timezone: string | null;
+  defaultCurrency: string | null;
+  fetchedAt: number;
+  label: string;
+}
+
+/**
+ * Display label for a merchant: "Name (CAD)", or just the currency when the name is unknown
+ */
+export function formatMerchantLabel(merchant: { name?: string | null; currency: string }): string {
+  return merchant.name ? `${merchant.name} (${merchant.currency})` : merchant.currency;
+}
+
+/**
+ * Label for a merchant ID: configured label, else the Clover profile name, else the currency
+ */
+export function getMerchantLabel(merchantId: string, currency: string): string {
+  const configured = getMerchantSettings(merchantId)?.label;
+  if (configured) return configured;
+
+  const profile = db.prepare('SELECT name FROM merchants WHERE id = ?').get(merchantId) as { name: string | null } | undefined;
+  return formatMerchantLabel({ name: profile?.name, currency });
+}
+
+export function saveMerchantProfile(merchant: Merchant, currency: string): void {
+  db.prepare(`
+    INSERT INTO merchants (
+      id, currency, name, phoneNumber, address1, city, state, zip, country,
+      timezone, defaultCurrency, rawMerchant, fetchedAt
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, unixepoch())
+    ON CONFLICT(id) DO UPDATE SET
+      currency = excluded.currency,
+      name = excluded.name,
+      phoneNumber = excluded.phoneNumber,
+      address1 = excluded.address1,
+      city = excluded.city,
+      state = excluded.state,
+      zip = excluded.zip,
+      country = excluded.country,
+      timezone = excluded.timezone,
+      defaultCurrency = excluded.defaultCurrency,
+      rawMerchant = excluded.rawMerchant,
+      fetchedAt = excluded.fetchedAt
+  `).run(
+    merchant.id,
+    currency,
+    merchant.name || null,
+    merchant.phoneNumber || null,
+    merchant.address?.address1 || null,
+    merchant.address?.city || null,
+    merchant.address?.state || null,
+    merchant.address?.zip || null,
+    merchant.address?.country || null,
+    merchant.properties?.timezone || null,
+    merchant.properties?.defaultCurrency || null,
+    JSON.stringify(merchant)
+  );
+}
+
+export function getMerchantProfiles(): MerchantProfile[] {
+  const rows = db.prepare(`
+    SELECT id, currency, name, phoneNumber, address1, city, state, zip, country,
+           timezone, defaultCurrency, fetchedAt
+    FROM merchants
+    ORDER BY currency, name
+  `).all() as Omit<MerchantProfile, 'label'>[];
+
+  return rows.map(row => ({ ...row, label: getMerchantSettings(row.id)?.label || formatMerchantLabel(row) }));
+}
+
+export function getMerchantProfile(merchantId: string): MerchantProfile | undefined {
+  return getMerchantProfiles().find(merchant => merchant.id === merchantId);
+}
+
+/**
+ * Fetch a merchant's profile from Clover with its current credentials and cache it
+ *
+ * Doubles as a connectivity check from the admin page: throws the Clover error on failure.
+ */
+export async function fetchMerchantProfile(merchantId: string): Promise<MerchantProfile> {
+  const merchant = getMerchantSettings(merchantId);
+  if (!merchant) {
+    throw new Error(`Merchant ${merchantId} not found`);
+  }
+
+  const credentials = resolveMerchantCredentials(merchant.id, getMerchantApiToken(merchant));
+  if (!credentials) {
+    throw new Error(`${merchant.label} has no API token or OAuth connection`);
+  }
+
+  const client = new CloverClient({ ...toCloverConfig(merchant, credentials.apiToken), ...credentials });
+  saveMerchantProfile(await client.getMerchantProfile(), merchant.currency);
+  return getMerchantProfile(merchantId)!;
+}
@@ -0,0 +1,201 @@
+/**
+ * Process-wide token-bucket rate limiting for Clover API requests
+ *
+ * Every CloverClient talking to the same merchant with the same token shares
+ * one bucket, so the dashboard, sync service and route handlers together stay
+ * under Clover's per-token limits.
+ */
+
+import { createHash } from 'crypto';
+import { getAppConfig } from './config';
+
+export interface RateLimiterOptions {
+  ratePerSecond: number;  // Sustained request rate
+  burst: number;          // Bucket size: requests allowed back-to-back
+  maxConcurrent: number;  // Requests allowed in flight at once
+}
+
+export interface RateLimiterMetrics {
+  key: string;
+  merchantId: string;
+  options: RateLimiterOptions;
+  requests: number;
+  delayedRequests: number;
+  totalWaitMs: number;
+  maxWaitMs: number;
+  averageWaitMs: number;
+  inFlight: number;
+  queued: number;
+  availableTokens: number;
+}
+
+// setTimeout as a promise that rejects early when the signal is aborted
+export function waitFor(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export class TokenBucketRateLimiter {
+  private tokens: number;
+  private lastRefill: number;
+  private inFlight = 0;
+  private waiting: Array<() => void> = [];
+  private requests = 0;
+  private delayedRequests = 0;
+  private totalWaitMs = 0;
+  private maxWaitMs = 0;
+
+  constructor(
+    readonly key: string,
+    readonly merchantId: string,
+    readonly options: RateLimiterOptions
+  ) {
+    this.tokens = options.burst;
+    this.lastRefill = Date.now();
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.options.burst, this.tokens + elapsed * this.options.ratePerSecond);
+    this.lastRefill = now;
+  }
+
+  private async acquireSlot(signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+    if (this.inFlight < this.options.maxConcurrent) {
+      this.inFlight++;
+      return;
+    }
+    // The releasing request hands its slot straight to us
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        // Leave the queue so no slot is ever handed to a cancelled request
+        this.waiting.splice(this.waiting.indexOf(waiter), 1);
+        reject(signal!.reason);
+      };
+      const waiter = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      this.waiting.push(waiter);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private releaseSlot(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.inFlight--;
+    }
+  }
+
+  /**
+   * Wait for a token and a concurrency slot. Returns the release callback
+   * that must be called once the request has finished. Rejects with the
+   * signal's reason if it is aborted while waiting.
+   */
+  async acquire(signal?: AbortSignal): Promise<{ release: () => void; waitedMs: number }> {
+    const startedAt = Date.now();
+    await this.acquireSlot(signal);
+
+    // Reserve a token; a negative balance is the queue of earlier reservations
+    this.refill();
+    this.tokens -= 1;
+    if (this.tokens < 0) {
+      const waitMs = Math.ceil((-this.tokens / this.options.ratePerSecond) * 1000);
+      try {
+        await waitFor(waitMs, signal);
+      } catch (error) {
+        // Hand back the reservation and the slot
+        this.tokens += 1;
+        this.releaseSlot();
+        throw error;
+      }
+    }
+
+    const waitedMs = Date.now() - startedAt;
+    this.requests++;
+    this.totalWaitMs += waitedMs;
+    this.maxWaitMs = Math.max(this.maxWaitMs, waitedMs);
+    if (waitedMs > 0) this.delayedRequests++;
+
+    let released = false;
+    return {
+      waitedMs,
+      release: () => {
+        if (released) return;
+        released = true;
+        this.releaseSlot();
+      },
+    };
+  }
+
+  getMetrics(): RateLimiterMetrics {
+    this.refill();
+    return {
+      key: this.key,
+      merchantId: this.merchantId,
+      options: this.options,
+      requests: this.requests,
+      delayedRequests: this.delayedRequests,
+      totalWaitMs: this.totalWaitMs,
+      maxWaitMs: this.maxWaitMs,
+      averageWaitMs: this.requests > 0 ? Math.round(this.totalWaitMs / this.requests) : 0,
+      inFlight: this.inFlight,
+      queued: this.waiting.length,
+      availableTokens: Math.max(0, Math.floor(this.tokens)),
+    };
+  }
+}
+
+// Kept on globalThis so dev-server module reloads don't reset the buckets
+const globalRegistry = globalThis as typeof globalThis & {
+  __cloverRateLimiters?: Map<string, TokenBucketRateLimiter>;
+};
+const limiters = (globalRegistry.__cloverRateLimiters ??= new Map());
+
+/**
+ * Rate limiter settings from the app config
+ */
+export function getRateLimiterOptions(): RateLimiterOptions {
+  return { ...getAppConfig().rateLimit };
+}
+
+/**
+ * Get the shared limiter for a merchant/token pair
+ */
+export function getRateLimiter(merchantId: string, apiToken: string): TokenBucketRateLimiter {
+  // Never keep the raw token around as a map key
+  const tokenHash = createHash('sha256').update(apiToken).digest('hex').slice(0, 12);
+  const key = `${merchantId}:${tokenHash}`;
+
+  let limiter = limiters.get(key);
+  if (!limiter) {
+    limiter = new TokenBucketRateLimiter(key, merchantId, getRateLimiterOptions());
+    limiters.set(key, limiter);
+  }
+  return limiter;
+}
+
+/**
+ * Wait-time metrics for every limiter in this process
+ */
+export function getRateLimiterMetrics(): RateLimiterMetrics[] {
+  return Array.from(limiters.values()).map(limiter => limiter.getMetrics());
+}
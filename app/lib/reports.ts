@@ -0,0 +1,112 @@
+/**
+ * PDF reports of the customer list, emailed through the email service
+ *
+ * Puppeteer loads /customers/print from the app itself and prints it, so a
+ * report looks exactly like the print page. Used by /api/send-email and the
+ * scheduler.
+ */
+
+import puppeteer from 'puppeteer';
+import { getAppConfig } from './config';
+import { emailService } from './email-service';
+
+export const REPORT_FILTERS = ['expired', 'expiring', 'action-required', 'payment-failed', 'no-cards'] as const;
+
+export interface ReportOptions {
+  filter: string;
+  search?: string;
+  sort?: string;
+  baseUrl?: string;   // Server the print page is loaded from (default SERVER_URL)
+}
+
+export interface ReportResult {
+  filter: string;
+  customerCount: number;
+  recipient: string;
+}
+
+/**
+ * Server the print page is loaded from when no request host is available
+ */
+export function getReportBaseUrl(): string {
+  return getAppConfig().reports.baseUrl || 'http://localhost:3000';
+}
+
+/**
+ * Render the print page for a filter to a PDF
+ */
+export async function renderReportPdf(options: ReportOptions): Promise<{ pdf: Buffer; customerCount: number }> {
+  const reportSettings = getAppConfig().reports;
+
+  const browser = await puppeteer.launch({
+    headless: true,
+    args: [
+      '--no-sandbox',
+      '--disable-setuid-sandbox',
+      '--disable-dev-shm-usage',
+      '--disable-gpu',
+      '--no-first-run'
+    ]
+  });
+
+  try {
+    const page = await browser.newPage();
+
+    const printParams = new URLSearchParams({
+      filter: options.filter,
+      search: options.search || '',
+      sort: options.sort || 'urgency'
+    });
+    const printUrl = `${options.baseUrl || getReportBaseUrl()}/customers/print?${printParams.toString()}`;
+
+    console.log(`[Reports] Loading URL for PDF: ${printUrl}`);
+
+    await page.goto(printUrl, {
+      waitUntil: 'networkidle2',
+      timeout: reportSettings.pageTimeoutMs
+    });
+
+    // Wait for content to load
+    await page.waitForSelector('table tbody tr', { timeout: 15000 });
+
+    const customerCount = await page.evaluate(() => {
+      const rows = document.querySelectorAll('table tbody tr');
+      return rows.length;
+    });
+
+    const pdf = await page.pdf({
+      format: reportSettings.pageFormat,
+      margin: {
+        top: '0.5in',
+        right: '0.5in',
+        bottom: '0.5in',
+        left: '0.5in'
+      },
+      printBackground: true,
+      preferCSSPageSize: true
+    });
+
+    console.log(`[Reports] Generated PDF: ${pdf.length} bytes, ${customerCount} customers`);
+    return { pdf: Buffer.from(pdf), customerCount };
+  } finally {
+    await browser.close();
+  }
+}
+
+/**
+ * Render a report and email it; throws when email is disabled
+ */
+export async function emailReport(options: ReportOptions & { recipient?: string }): Promise<ReportResult> {
+  if (!emailService.isEnabled()) {
+    throw new Error('Email service is disabled');
+  }
+
+  const { pdf, customerCount } = await renderReportPdf(options);
+  await emailService.sendPdfReport(pdf, options.filter, customerCount, options.recipient);
+
+  return {
+    filter: options.filter,
+    customerCount,
+    recipient: options.recipient || emailService.getRecipient()
+  };
+}
@@ -0,0 +1,273 @@
+/**
+ * In-process scheduler for syncs and emailed reports
+ *
+ * Schedules are rows in the schedules table and run with node-cron inside the
+ * server process, replacing the host crontab set up by
+ * scripts/install-cron-jobs.sh. A schedule still running from its last
+ * trigger, or a sync while another process holds the sync lock, is skipped
+ * rather than queued.
+ */
+
+import cron, { type ScheduledTask } from 'node-cron';
+import { db } from './db';
+import { ConfigError, getAppConfig, isValidTimeZone } from './config';
+import type { SyncMode } from './clover-sync';
+import { startSyncJob, waitForSyncJob } from './sync-jobs';
+import { describeSyncLock, getSyncLockHolder, SyncLockedError } from './sync-lock';
+import { emailReport, getReportBaseUrl } from './reports';
+
+export type ScheduleAction = 'sync' | 'report' | 'sync-and-email';
+export type ScheduleStatus = 'running' | 'success' | 'failed' | 'skipped';
+
+export interface ScheduleOptions {
+  mode?: SyncMode;       // Sync mode (default auto)
+  filters?: string[];    // Report filters to email (default expired and expiring)
+  recipient?: string;    // Report recipient (default EMAIL_RECIPIENT)
+}
+
+export interface Schedule {
+  id: string;
+  label: string;
+  action: ScheduleAction;
+  cronExpression: string;
+  timezone: string | null;
+  enabled: boolean;
+  options: ScheduleOptions;
+  lastRunAt: number | null;
+  lastFinishedAt: number | null;
+  lastStatus: ScheduleStatus | null;
+  lastMessage: string | null;
+}
+
+export interface ScheduleStatusView extends Schedule {
+  effectiveTimezone: string;
+  nextRunAt: string | null;
+  running: boolean;
+}
+
+type ScheduleRow = Omit<Schedule, 'enabled' | 'options'> & { enabled: number; options: string | null };
+
+// Kept on globalThis so dev-server module reloads don't register every task twice
+const globalRegistry = globalThis as typeof globalThis & {
+  __cloverScheduledTasks?: Map<string, ScheduledTask>;
+  __cloverRunningSchedules?: Set<string>;
+};
+const tasks = (globalRegistry.__cloverScheduledTasks ??= new Map());
+const running = (globalRegistry.__cloverRunningSchedules ??= new Set());
+
+function toSchedule(row: ScheduleRow): Schedule {
+  return { ...row, enabled: row.enabled === 1, options: row.options ? JSON.parse(row.options) : {} };
+}
+
+export function getSchedule(scheduleId: string): Schedule | undefined {
+  const row = db.prepare(`SELECT * FROM schedules WHERE id = ?`).get(scheduleId) as ScheduleRow | undefined;
+  return row ? toSchedule(row) : undefined;
+}
+
+/**
+ * Every schedule with its next run (null when disabled or the scheduler is off)
+ */
+export function listSchedules(): ScheduleStatusView[] {
+  const rows = db.prepare(`SELECT * FROM schedules ORDER BY label`).all() as ScheduleRow[];
+  return rows.map(row => {
+    const schedule = toSchedule(row);
+    return {
+      ...schedule,
+      effectiveTimezone: schedule.timezone ?? getAppConfig().scheduler.timezone,
+      nextRunAt: tasks.get(schedule.id)?.getNextRun()?.toISOString() ?? null,
+      running: running.has(schedule.id)
+    };
+  });
+}
+
+function recordRun(scheduleId: string, status: ScheduleStatus, message: string | null) {
+  db.prepare(`
+    UPDATE schedules SET
+      lastRunAt = CASE WHEN ? = 'running' THEN unixepoch() ELSE lastRunAt END,
+      lastFinishedAt = CASE WHEN ? = 'running' THEN NULL ELSE unixepoch() END,
+      lastStatus = ?,
+      lastMessage = ?
+    WHERE id = ?
+  `).run(status, status, status, message, scheduleId);
+}
+
+async function runSync(schedule: Schedule): Promise<string> {
+  const job = startSyncJob({ mode: schedule.options.mode ?? 'auto', trigger: 'schedule' });
+  const finished = await waitForSyncJob(job.id);
+
+  if (finished.status === 'failed') {
+    throw new Error(`Sync failed: ${finished.error}`);
+  }
+  if (finished.status === 'cancelled') {
+    throw new Error(`Sync run #${finished.runId} was cancelled`);
+  }
+
+  const errorCount = finished.result?.errors.length ?? 0;
+  return `Sync run #${finished.runId}: ${finished.result?.stats.totalCustomers ?? 0} customers`
+    + (errorCount > 0 ? `, ${errorCount} errors` : '');
+}
+
+async function sendReports(schedule: Schedule): Promise<string> {
+  const filters = schedule.options.filters ?? ['expired', 'expiring'];
+  const outcomes: string[] = [];
+  let failed = false;
+
+  // One report failing doesn't stop the others
+  for (const filter of filters) {
+    try {
+      const result = await emailReport({ filter, baseUrl: getReportBaseUrl(), recipient: schedule.options.recipient });
+      outcomes.push(`${filter} report: ${result.customerCount} customers to ${result.recipient}`);
+    } catch (error) {
+      console.error(`[Scheduler] ${filter} report failed:`, error);
+      outcomes.push(`${filter} report failed: ${error instanceof Error ? error.message : error}`);
+      failed = true;
+    }
+  }
+
+  if (failed) {
+    throw new Error(outcomes.join('; '));
+  }
+  return outcomes.join('; ');
+}
+
+async function executeAction(schedule: Schedule): Promise<string> {
+  switch (schedule.action) {
+    case 'sync':
+      return runSync(schedule);
+    case 'report':
+      return sendReports(schedule);
+    case 'sync-and-email': {
+      // Like scripts/sync-and-email.ts: no reports when the sync itself failed
+      const sync = await runSync(schedule);
+      try {
+        return `${sync}; ${await sendReports(schedule)}`;
+      } catch (error) {
+        throw new Error(`${sync}; ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    default:
+      throw new Error(`Unknown schedule action: ${schedule.action}`);
+  }
+}
+
+/**
+ * Run a schedule now, from its cron trigger or "run now" on the admin page
+ */
+export async function runSchedule(scheduleId: string, reason: 'scheduled' | 'manual'): Promise<ScheduleStatus> {
+  const schedule = getSchedule(scheduleId);
+  if (!schedule) {
+    throw new ConfigError(`Schedule ${scheduleId} not found`);
+  }
+
+  if (running.has(schedule.id)) {
+    console.log(`[Scheduler] ${schedule.label} is still running, skipped`);
+    return 'skipped';
+  }
+  const holder = schedule.action !== 'report' ? getSyncLockHolder() : null;
+  if (holder) {
+    const message = describeSyncLock(holder);
+    console.log(`[Scheduler] ${schedule.label} skipped: ${message}`);
+    recordRun(schedule.id, 'skipped', message);
+    return 'skipped';
+  }
+
+  running.add(schedule.id);
+  recordRun(schedule.id, 'running', null);
+  console.log(`[Scheduler] Running ${schedule.label} (${reason})`);
+
+  try {
+    const message = await executeAction(schedule);
+    console.log(`[Scheduler] ${schedule.label} finished: ${message}`);
+    recordRun(schedule.id, 'success', message);
+    return 'success';
+  } catch (error) {
+    // Another process took the lock between the check above and the sync starting
+    if (error instanceof SyncLockedError) {
+      console.log(`[Scheduler] ${schedule.label} skipped: ${error.message}`);
+      recordRun(schedule.id, 'skipped', error.message);
+      return 'skipped';
+    }
+    console.error(`[Scheduler] ${schedule.label} failed:`, error);
+    recordRun(schedule.id, 'failed', error instanceof Error ? error.message : String(error));
+    return 'failed';
+  } finally {
+    running.delete(schedule.id);
+  }
+}
+
+// (Re)create the cron task for one schedule, or drop it when disabled
+function registerSchedule(schedule: Schedule) {
+  tasks.get(schedule.id)?.destroy();
+  tasks.delete(schedule.id);
+
+  const settings = getAppConfig().scheduler;
+  if (!settings.enabled || !schedule.enabled) return;
+
+  const task = cron.schedule(
+    schedule.cronExpression,
+    () => runSchedule(schedule.id, 'scheduled'),
+    { name: `schedule:${schedule.id}`, timezone: schedule.timezone ?? settings.timezone }
+  );
+  tasks.set(schedule.id, task);
+}
+
+/**
+ * Register every enabled schedule; safe to call again after a reload
+ */
+export function startScheduler() {
+  if (!getAppConfig().scheduler.enabled) {
+    console.log('[Scheduler] Disabled (SCHEDULER_ENABLED=false)');
+    return;
+  }
+
+  // A run the last server process never finished
+  db.prepare(`
+    UPDATE schedules SET lastStatus = 'failed', lastMessage = 'Interrupted by a server restart', lastFinishedAt = unixepoch()
+    WHERE lastStatus = 'running'
+  `).run();
+
+  const schedules = (db.prepare(`SELECT * FROM schedules`).all() as ScheduleRow[]).map(toSchedule);
+  for (const schedule of schedules) {
+    registerSchedule(schedule);
+  }
+  console.log(`[Scheduler] ${tasks.size} of ${schedules.length} schedules active (${getAppConfig().scheduler.timezone})`);
+}
+
+/**
+ * Change a schedule's timing or turn it on or off; takes effect immediately
+ */
+export function updateSchedule(
+  scheduleId: string,
+  changes: { cronExpression?: string; timezone?: string | null; enabled?: boolean }
+): Schedule {
+  const schedule = getSchedule(scheduleId);
+  if (!schedule) {
+    throw new ConfigError(`Schedule ${scheduleId} not found`);
+  }
+
+  const issues: string[] = [];
+  if (changes.cronExpression !== undefined && !cron.validate(changes.cronExpression)) {
+    issues.push(`cronExpression: "${changes.cronExpression}" is not a valid cron expression`);
+  }
+  if (changes.timezone && !isValidTimeZone(changes.timezone)) {
+    issues.push(`timezone: Unknown time zone ${changes.timezone}`);
+  }
+  if (issues.length > 0) {
+    throw new ConfigError('Invalid schedule', issues);
+  }
+
+  const updated: Schedule = {
+    ...schedule,
+    cronExpression: changes.cronExpression ?? schedule.cronExpression,
+    timezone: changes.timezone === undefined ? schedule.timezone : changes.timezone || null,
+    enabled: changes.enabled ?? schedule.enabled
+  };
+  db.prepare(`
+    UPDATE schedules SET cronExpression = ?, timezone = ?, enabled = ?, updatedAt = unixepoch()
+    WHERE id = ?
+  `).run(updated.cronExpression, updated.timezone, updated.enabled ? 1 : 0, scheduleId);
+
+  registerSchedule(updated);
+  console.log(`[Scheduler] Updated ${updated.label}: ${updated.enabled ? `${updated.cronExpression} (${updated.timezone ?? 'default time zone'})` : 'disabled'}`);
+  return updated;
+}
@@ -0,0 +1,252 @@
+/**
+ * Schema drift detection for Clover API payloads
+ *
+ * Compares raw JSON from Clover against our zod schemas and records new
+ * fields, type changes and missing required fields per merchant, so we notice
+ * when Clover changes its payloads.
+ */
+
+import { z } from 'zod';
+import { db } from './db';
+
+export type SchemaDriftKind = 'new-field' | 'type-change' | 'missing-required';
+
+export interface SchemaDriftIssue {
+  kind: SchemaDriftKind;
+  path: string;        // Array indices collapsed to [] (e.g. cards[].cardType)
+  expected?: string;
+  received?: string;
+  occurrences: number;
+}
+
+export interface SchemaDriftContext {
+  merchantId: string;
+  merchantCurrency: string;
+  resource: string;    // e.g. 'customers'
+}
+
+export interface SchemaDriftEvent extends SchemaDriftContext {
+  id: number;
+  kind: SchemaDriftKind;
+  path: string;
+  expected: string | null;
+  received: string | null;
+  occurrences: number;
+  firstSeenAt: number;
+  lastSeenAt: number;
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Strip wrappers that don't change the shape of the data
+ */
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) return unwrap(schema.unwrap());
+  if (schema instanceof z.ZodDefault) return unwrap(schema._def.innerType);
+  if (schema instanceof z.ZodEffects) return unwrap(schema.innerType());
+  if (schema instanceof z.ZodLazy) return unwrap(schema.schema);
+  return schema;
+}
+
+function expectedType(schema: z.ZodTypeAny): string {
+  if (schema instanceof z.ZodString) return 'string';
+  if (schema instanceof z.ZodNumber) return 'number';
+  if (schema instanceof z.ZodBoolean) return 'boolean';
+  if (schema instanceof z.ZodArray) return 'array';
+  if (schema instanceof z.ZodObject || schema instanceof z.ZodRecord) return 'object';
+  if (schema instanceof z.ZodEnum || schema instanceof z.ZodLiteral) return 'string';
+  return 'unknown';
+}
+
+function walk(
+  schema: z.ZodTypeAny,
+  value: unknown,
+  path: string,
+  report: (issue: Omit<SchemaDriftIssue, 'occurrences'>) => void
+): void {
+  if (value === undefined) return;
+
+  const allowsNull = schema.isNullable();
+  const inner = unwrap(schema);
+  if (value === null) {
+    if (!allowsNull && !(inner instanceof z.ZodAny || inner instanceof z.ZodUnknown)) {
+      report({ kind: 'type-change', path, expected: expectedType(inner), received: 'null' });
+    }
+    return;
+  }
+
+  if (inner instanceof z.ZodUnion) {
+    // Pick the option matching the runtime shape (e.g. array vs { elements: [] })
+    const options = inner.options as z.ZodTypeAny[];
+    const match = options.find(option => expectedType(unwrap(option)) === describeValue(value));
+    if (match) {
+      walk(match, value, path, report);
+    } else {
+      report({ kind: 'type-change', path, expected: options.map(o => expectedType(unwrap(o))).join(' | '), received: describeValue(value) });
+    }
+    return;
+  }
+
+  if (inner instanceof z.ZodObject) {
+    if (!isPlainObject(value)) {
+      report({ kind: 'type-change', path, expected: 'object', received: describeValue(value) });
+      return;
+    }
+    const shape = inner.shape as Record<string, z.ZodTypeAny>;
+    for (const [key, fieldSchema] of Object.entries(shape)) {
+      const fieldPath = path ? `${path}.${key}` : key;
+      if (value[key] === undefined) {
+        if (!fieldSchema.isOptional()) {
+          report({ kind: 'missing-required', path: fieldPath, expected: expectedType(unwrap(fieldSchema)) });
+        }
+        continue;
+      }
+      walk(fieldSchema, value[key], fieldPath, report);
+    }
+    for (const key of Object.keys(value)) {
+      if (!(key in shape)) {
+        report({ kind: 'new-field', path: path ? `${path}.${key}` : key, received: describeValue(value[key]) });
+      }
+    }
+    return;
+  }
+
+  if (inner instanceof z.ZodArray) {
+    if (!Array.isArray(value)) {
+      report({ kind: 'type-change', path, expected: 'array', received: describeValue(value) });
+      return;
+    }
+    value.forEach(item => walk(inner.element, item, `${path}[]`, report));
+    return;
+  }
+
+  if (inner instanceof z.ZodRecord) {
+    if (!isPlainObject(value)) {
+      report({ kind: 'type-change', path, expected: 'object', received: describeValue(value) });
+      return;
+    }
+    Object.values(value).forEach(item => walk(inner.valueSchema, item, `${path}.*`, report));
+    return;
+  }
+
+  const expected = expectedType(inner);
+  if (expected !== 'unknown' && expected !== describeValue(value)) {
+    report({ kind: 'type-change', path, expected, received: describeValue(value) });
+  }
+}
+
+/**
+ * Compare a raw payload against a schema. Issues are de-duplicated by path.
+ */
+export function detectSchemaDrift(schema: z.ZodTypeAny, value: unknown, basePath = ''): SchemaDriftIssue[] {
+  const issues = new Map<string, SchemaDriftIssue>();
+
+  walk(schema, value, basePath, issue => {
+    const key = `${issue.kind}:${issue.path}:${issue.received ?? ''}`;
+    const existing = issues.get(key);
+    if (existing) {
+      existing.occurrences++;
+    } else {
+      issues.set(key, { ...issue, occurrences: 1 });
+    }
+  });
+
+  return Array.from(issues.values());
+}
+
+/**
+ * Merge drift issues found across several payloads (e.g. every customer on a page)
+ */
+export function mergeSchemaDrift(...groups: SchemaDriftIssue[][]): SchemaDriftIssue[] {
+  const merged = new Map<string, SchemaDriftIssue>();
+  for (const issue of groups.flat()) {
+    const key = `${issue.kind}:${issue.path}:${issue.received ?? ''}`;
+    const existing = merged.get(key);
+    if (existing) {
+      existing.occurrences += issue.occurrences;
+    } else {
+      merged.set(key, { ...issue });
+    }
+  }
+  return Array.from(merged.values());
+}
+
+/**
+ * Persist drift issues, bumping counters for ones we've already seen
+ */
+export function recordSchemaDrift(context: SchemaDriftContext, issues: SchemaDriftIssue[]): void {
+  if (issues.length === 0) return;
+
+  const upsert = db.prepare(`
+    INSERT INTO schema_drift_events (
+      merchantId, merchantCurrency, resource, kind, path, expected, received, occurrences
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(merchantId, resource, kind, path, received) DO UPDATE SET
+      occurrences = occurrences + excluded.occurrences,
+      expected = excluded.expected,
+      lastSeenAt = unixepoch()
+  `);
+
+  const recordAll = db.transaction((items: SchemaDriftIssue[]) => {
+    for (const issue of items) {
+      upsert.run(
+        context.merchantId,
+        context.merchantCurrency,
+        context.resource,
+        issue.kind,
+        issue.path,
+        issue.expected ?? null,
+        issue.received ?? '',
+        issue.occurrences
+      );
+    }
+  });
+
+  try {
+    recordAll(issues);
+    console.warn(`[SchemaDrift] ${context.merchantCurrency} ${context.resource}: ${issues.map(i => `${i.kind} ${i.path}`).join(', ')}`);
+  } catch (error) {
+    // Drift reporting must never break a sync
+    console.error('[SchemaDrift] Failed to record drift events:', error);
+  }
+}
+
+/**
+ * Recorded drift events, most recently seen first
+ */
+export function getSchemaDriftEvents(filters: { merchantId?: string; since?: number } = {}): SchemaDriftEvent[] {
+  const conditions: string[] = [];
+  const params: Array<string | number> = [];
+
+  if (filters.merchantId) {
+    conditions.push('merchantId = ?');
+    params.push(filters.merchantId);
+  }
+  if (filters.since) {
+    conditions.push('lastSeenAt >= ?');
+    params.push(filters.since);
+  }
+
+  const rows = db.prepare(`
+    SELECT id, merchantId, merchantCurrency, resource, kind, path, expected, received,
+           occurrences, firstSeenAt, lastSeenAt
+    FROM schema_drift_events
+    ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+    ORDER BY lastSeenAt DESC, merchantId, path
+  `).all(...params) as SchemaDriftEvent[];
+
+  return rows.map(row => ({ ...row, received: row.received || null }));
+}
+
+export function clearSchemaDriftEvents(): number {
+  return db.prepare(`DELETE FROM schema_drift_events`).run().changes;
+}
@@ -0,0 +1,68 @@
+/**
+ * Encrypted columns in SQLite: plaintext migration and master key rotation
+ *
+ * Every column holding a secret is listed here, so that values written before
+ * a master key was configured can be encrypted in place, and a new master key
+ * can re-encrypt everything in one transaction.
+ */
+
+import { db } from './db';
+import { decryptSecret, encryptSecret, isEncryptedSecret } from './secrets';
+
+interface EncryptedColumn {
+  table: string;
+  keyColumn: string;
+  column: string;
+}
+
+const ENCRYPTED_COLUMNS: EncryptedColumn[] = [
+  { table: 'oauth_tokens', keyColumn: 'merchantId', column: 'accessToken' },
+  { table: 'oauth_tokens', keyColumn: 'merchantId', column: 'refreshToken' },
+  { table: 'merchant_settings', keyColumn: 'merchantId', column: 'apiToken' },
+  { table: 'cards', keyColumn: 'id', column: 'token' },
+];
+
+/**
+ * Rewrite every stored secret through `transform` (null leaves a value unchanged)
+ */
+function rewriteSecrets(transform: (value: string) => string | null): Record<string, number> {
+  const counts: Record<string, number> = {};
+
+  db.transaction(() => {
+    for (const { table, keyColumn, column } of ENCRYPTED_COLUMNS) {
+      const rows = db.prepare(`
+        SELECT ${keyColumn} AS rowKey, ${column} AS value FROM ${table}
+        WHERE ${column} IS NOT NULL AND ${column} != ''
+      `).all() as Array<{ rowKey: string; value: string }>;
+      const update = db.prepare(`UPDATE ${table} SET ${column} = ? WHERE ${keyColumn} = ?`);
+
+      let changed = 0;
+      for (const row of rows) {
+        const next = transform(row.value);
+        if (next === null) continue;
+        update.run(next, row.rowKey);
+        changed++;
+      }
+      counts[`${table}.${column}`] = changed;
+    }
+  })();
+
+  return counts;
+}
+
+/**
+ * Encrypt values still stored in plaintext with the current master key
+ */
+export function migratePlaintextSecrets(): Record<string, number> {
+  return rewriteSecrets(value => (isEncryptedSecret(value) ? null : encryptSecret(value)));
+}
+
+/**
+ * Re-encrypt every stored secret from `oldKey` to `newKey`; nothing changes if any value fails to decrypt
+ */
+export function reencryptSecrets(oldKey: Buffer, newKey: Buffer): Record<string, number> {
+  return rewriteSecrets(value => encryptSecret(
+    isEncryptedSecret(value) ? decryptSecret(value, oldKey) : value,
+    newKey
+  ));
+}
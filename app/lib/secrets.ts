@@ -0,0 +1,119 @@
+/**
+ * Encryption for secrets stored in SQLite (OAuth tokens, API tokens, card tokens) and .env
+ *
+ * AES-256-GCM with a 32-byte master key from SECRETS_MASTER_KEY or the file
+ * named by SECRETS_MASTER_KEY_FILE (64 hex characters or base64). Encrypted
+ * values look like `v1:<iv>:<tag>:<data>` and can also replace plaintext
+ * values in .env (npm run secrets:migrate).
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import fs from 'fs';
+import { getAppConfig } from './config';
+
+const ALGORITHM = 'aes-256-gcm';
+const VERSION = 'v1';
+
+/**
+ * Decode a key in either accepted format; `source` names it in error messages
+ */
+export function parseMasterKey(raw: string, source = 'SECRETS_MASTER_KEY'): Buffer {
+  const trimmed = raw.trim();
+  const key = /^[0-9a-f]{64}$/i.test(trimmed) ? Buffer.from(trimmed, 'hex') : Buffer.from(trimmed, 'base64');
+  if (key.length !== 32) {
+    throw new Error(`${source} must be 32 bytes (64 hex characters or base64)`);
+  }
+  return key;
+}
+
+export function generateMasterKey(): string {
+  return randomBytes(32).toString('hex');
+}
+
+// Key file contents, re-read only when the file changes
+let keyFileCache: { path: string; mtimeMs: number; key: Buffer } | null = null;
+
+/**
+ * The configured master key, or null when neither SECRETS_MASTER_KEY nor a key file is set
+ */
+export function readMasterKey(): Buffer | null {
+  const { masterKey, masterKeyFile } = getAppConfig().secrets;
+  if (masterKey) return parseMasterKey(masterKey);
+  if (!masterKeyFile) return null;
+  if (!fs.existsSync(masterKeyFile)) {
+    throw new Error(`SECRETS_MASTER_KEY_FILE not found: ${masterKeyFile}`);
+  }
+
+  const { mtimeMs } = fs.statSync(masterKeyFile);
+  if (keyFileCache?.path !== masterKeyFile || keyFileCache.mtimeMs !== mtimeMs) {
+    keyFileCache = {
+      path: masterKeyFile,
+      mtimeMs,
+      key: parseMasterKey(fs.readFileSync(masterKeyFile, 'utf-8'), `Key file ${masterKeyFile}`),
+    };
+  }
+  return keyFileCache.key;
+}
+
+function loadMasterKey(): Buffer {
+  const key = readMasterKey();
+  if (!key) {
+    throw new Error('No secrets master key: set SECRETS_MASTER_KEY or SECRETS_MASTER_KEY_FILE (generate one with: openssl rand -hex 32)');
+  }
+  return key;
+}
+
+export function hasMasterKey(): boolean {
+  return readMasterKey() !== null;
+}
+
+export function isEncryptedSecret(value: string): boolean {
+  return value.startsWith(`${VERSION}:`);
+}
+
+export function encryptSecret(plaintext: string, key: Buffer = loadMasterKey()): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [VERSION, iv.toString('base64'), tag.toString('base64'), data.toString('base64')].join(':');
+}
+
+export function decryptSecret(value: string, key: Buffer = loadMasterKey()): string {
+  const [version, iv, tag, data] = value.split(':');
+  if (version !== VERSION || !iv || !tag || data === undefined) {
+    throw new Error('Unrecognized encrypted secret format');
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  // Throws if the key is wrong or the value was tampered with
+  return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Read a secret that may be stored either way (.env values, rows written before encryption)
+ */
+export function revealSecret(value: string): string;
+export function revealSecret(value: string | undefined): string | undefined;
+export function revealSecret(value: string | undefined): string | undefined {
+  return value && isEncryptedSecret(value) ? decryptSecret(value) : value;
+}
+
+let warnedNoKey = false;
+
+/**
+ * Encrypt a value for storage when a master key is configured
+ *
+ * Without a key the value is stored as-is (warned once); it is encrypted by
+ * the plaintext migration once a key is set.
+ */
+export function protectSecret(value: string): string {
+  if (hasMasterKey()) return encryptSecret(value);
+
+  if (!warnedNoKey) {
+    console.warn('[Secrets] No master key configured; secrets are stored unencrypted until SECRETS_MASTER_KEY is set');
+    warnedNoKey = true;
+  }
+  return value;
+}
@@ -0,0 +1,159 @@
+/**
+ * Sync run history
+ *
+ * Every syncAllCustomers call is recorded in sync_runs (who started it, when,
+ * per-merchant counts) with its errors in sync_errors, so the admin page and
+ * /api/sync-clover can show what the last runs did after they finished.
+ */
+
+import { db } from './db';
+import type { SyncError, SyncMode } from './clover-sync';
+
+export type SyncTrigger = 'cli' | 'api' | 'schedule';
+export type SyncRunStatus = 'running' | 'success' | 'partial' | 'failed' | 'cancelled';
+
+export interface MerchantSyncStats {
+  label: string;
+  currency: string;
+  mode: 'full' | 'incremental';
+  fetched: number;
+  synced: number;
+  errors: number;
+  deleted: number;
+  retries: number;
+  orders: { fetched: number; stored: number } | null;
+  modifiedSince: number | null;
+}
+
+export interface SyncRun {
+  id: number;
+  trigger: SyncTrigger;
+  mode: SyncMode;
+  status: SyncRunStatus;
+  startedAt: number;
+  finishedAt: number | null;
+  fetched: number;
+  synced: number;
+  failed: number;
+  deleted: number;
+  retries: number;
+  errorCount: number;
+  merchantStats: Record<string, MerchantSyncStats>;
+}
+
+export interface SyncErrorRecord {
+  id: number;
+  runId: number;
+  merchantId: string | null;
+  customerId: string | null;
+  kind: string;
+  status: number | null;
+  endpoint: string | null;
+  message: string;
+  description: string | null;
+  responseBody: string | null;
+  retries: number | null;
+  createdAt: number;
+}
+
+type SyncRunRow = Omit<SyncRun, 'merchantStats'> & { merchantStats: string | null };
+
+function toSyncRun(row: SyncRunRow): SyncRun {
+  return { ...row, merchantStats: row.merchantStats ? JSON.parse(row.merchantStats) : {} };
+}
+
+export function startSyncRun(trigger: SyncTrigger, mode: SyncMode): number {
+  const { lastInsertRowid } = db.prepare(`INSERT INTO sync_runs (trigger, mode) VALUES (?, ?)`).run(trigger, mode);
+  return Number(lastInsertRowid);
+}
+
+/**
+ * Store a finished run's totals and errors; `stoppedAs` marks a run that stopped early
+ */
+export function finishSyncRun(
+  runId: number,
+  merchantStats: Record<string, MerchantSyncStats>,
+  errors: SyncError[],
+  stoppedAs?: 'failed' | 'cancelled'
+): void {
+  const merchants = Object.values(merchantStats);
+  const sum = (field: 'fetched' | 'synced' | 'errors' | 'deleted' | 'retries') =>
+    merchants.reduce((total, merchant) => total + (merchant[field] || 0), 0);
+  const status: SyncRunStatus = stoppedAs ?? (errors.length > 0 ? 'partial' : 'success');
+
+  const insertError = db.prepare(`
+    INSERT INTO sync_errors (
+      runId, merchantId, customerId, kind, status, endpoint, message, description, responseBody, retries
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  db.transaction(() => {
+    db.prepare(`
+      UPDATE sync_runs SET
+        status = ?, finishedAt = unixepoch(), fetched = ?, synced = ?, failed = ?,
+        deleted = ?, retries = ?, errorCount = ?, merchantStats = ?
+      WHERE id = ?
+    `).run(
+      status,
+      sum('fetched'),
+      sum('synced'),
+      sum('errors'),
+      sum('deleted'),
+      sum('retries'),
+      errors.length,
+      JSON.stringify(merchantStats),
+      runId
+    );
+
+    for (const error of errors) {
+      insertError.run(
+        runId,
+        error.merchantId ?? null,
+        error.customerId ?? null,
+        error.kind,
+        error.status ?? null,
+        error.endpoint ?? null,
+        error.error,
+        error.description,
+        error.responseBody ?? null,
+        error.retries ?? null
+      );
+    }
+  })();
+}
+
+export function listSyncRuns(limit = 50): SyncRun[] {
+  const rows = db.prepare(`SELECT * FROM sync_runs ORDER BY id DESC LIMIT ?`).all(limit) as SyncRunRow[];
+  return rows.map(toSyncRun);
+}
+
+export function getSyncRun(runId: number): (SyncRun & { errors: SyncErrorRecord[] }) | undefined {
+  const row = db.prepare(`SELECT * FROM sync_runs WHERE id = ?`).get(runId) as SyncRunRow | undefined;
+  if (!row) return undefined;
+
+  const errors = db.prepare(`SELECT * FROM sync_errors WHERE runId = ? ORDER BY id`).all(runId) as SyncErrorRecord[];
+  return { ...toSyncRun(row), errors };
+}
+
+/**
+ * Close a run whose process stopped without finishing it
+ */
+export function abandonSyncRun(runId: number, reason: string): void {
+  db.transaction(() => {
+    const { changes } = db.prepare(`
+      UPDATE sync_runs SET status = 'failed', finishedAt = unixepoch(), errorCount = errorCount + 1
+      WHERE id = ? AND status = 'running'
+    `).run(runId);
+    if (changes > 0) {
+      db.prepare(`INSERT INTO sync_errors (runId, kind, message) VALUES (?, 'unknown', ?)`).run(runId, reason);
+    }
+  })();
+}
+
+/**
+ * The most recent run that finished, whatever its outcome
+ */
+export function getLastFinishedSyncRun(): SyncRun | undefined {
+  const row = db.prepare(`SELECT * FROM sync_runs WHERE finishedAt IS NOT NULL ORDER BY id DESC LIMIT 1`).get() as SyncRunRow | undefined;
+  return row ? toSyncRun(row) : undefined;
+}
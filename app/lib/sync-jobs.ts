@@ -0,0 +1,193 @@
+/**
+ * Background sync jobs
+ *
+ * POST /api/sync-clover starts syncAllCustomers here and returns right away;
+ * the job keeps running in the server process. Progress is pushed to
+ * subscribers (the SSE route) and can be polled by job ID, and a job can be
+ * cancelled between requests to Clover.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { CloverSyncService, type SyncError, type SyncMode, type SyncProgress } from './clover-sync';
+import { getLastFinishedSyncRun, type SyncTrigger } from './sync-history';
+import { getSyncLockHolder, SyncLockedError } from './sync-lock';
+
+export type SyncJobStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface SyncJob {
+  id: string;
+  mode: SyncMode;
+  trigger: SyncTrigger;
+  status: SyncJobStatus;
+  runId: number | null;
+  startedAt: string;
+  finishedAt: string | null;
+  progress: SyncProgress | null;
+  expectedCustomers: number | null;   // Customers fetched by the last finished run, the basis for the ETA
+  etaMs: number | null;
+  result: { success: boolean; stats: any; errors: SyncError[] } | null;
+  error: string | null;
+}
+
+type SyncJobListener = (job: SyncJob) => void;
+
+interface SyncJobEntry {
+  job: SyncJob;
+  controller: AbortController;
+  listeners: Set<SyncJobListener>;
+  lastNotifiedAt: number;
+  finished?: Promise<SyncJob>;
+}
+
+// Progress arrives per customer; subscribers get at most one update per interval
+const NOTIFY_INTERVAL_MS = 250;
+const MAX_FINISHED_JOBS = 20;
+
+// Kept on globalThis so dev-server module reloads don't lose running jobs
+const globalRegistry = globalThis as typeof globalThis & {
+  __cloverSyncJobs?: Map<string, SyncJobEntry>;
+};
+const jobs = (globalRegistry.__cloverSyncJobs ??= new Map());
+
+function notify(entry: SyncJobEntry, force = false) {
+  const now = Date.now();
+  if (!force && now - entry.lastNotifiedAt < NOTIFY_INTERVAL_MS) return;
+  entry.lastNotifiedAt = now;
+  for (const listener of entry.listeners) {
+    listener(entry.job);
+  }
+}
+
+function estimateRemainingMs(job: SyncJob, progress: SyncProgress): number | null {
+  if (!job.expectedCustomers || progress.customersStored === 0) return null;
+  const remaining = job.expectedCustomers - progress.customersStored;
+  if (remaining <= 0) return null;
+  const elapsed = Date.now() - new Date(job.startedAt).getTime();
+  return Math.round(elapsed / progress.customersStored * remaining);
+}
+
+// Keep the most recent finished jobs for status lookups, drop the rest
+function pruneFinishedJobs() {
+  const finished = [...jobs.values()].filter(entry => entry.job.status !== 'running');
+  for (const entry of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+    jobs.delete(entry.job.id);
+  }
+}
+
+export function getSyncJob(jobId: string): SyncJob | undefined {
+  return jobs.get(jobId)?.job;
+}
+
+export function getActiveSyncJob(): SyncJob | undefined {
+  for (const { job } of jobs.values()) {
+    if (job.status === 'running') return job;
+  }
+  return undefined;
+}
+
+/**
+ * Start a sync in the background; throws SyncLockedError if a sync is already
+ * running here or in another process
+ */
+export function startSyncJob(options: { mode: SyncMode; trigger: SyncTrigger }): SyncJob {
+  const holder = getSyncLockHolder();
+  if (holder) {
+    throw new SyncLockedError(holder);
+  }
+  const active = getActiveSyncJob();
+  if (active) {
+    throw new Error(`Sync job ${active.id} is already running`);
+  }
+
+  const job: SyncJob = {
+    id: randomUUID(),
+    mode: options.mode,
+    trigger: options.trigger,
+    status: 'running',
+    runId: null,
+    startedAt: new Date().toISOString(),
+    finishedAt: null,
+    progress: null,
+    expectedCustomers: getLastFinishedSyncRun()?.fetched || null,
+    etaMs: null,
+    result: null,
+    error: null
+  };
+  const entry: SyncJobEntry = { job, controller: new AbortController(), listeners: new Set(), lastNotifiedAt: 0 };
+  jobs.set(job.id, entry);
+
+  console.log(`[SyncJobs] Starting job ${job.id} (${options.mode}, ${options.trigger})`);
+
+  // Deferred so a failing service constructor fails the job rather than the request
+  entry.finished = Promise.resolve()
+    .then(() => new CloverSyncService().syncAllCustomers({
+      mode: options.mode,
+      trigger: options.trigger,
+      signal: entry.controller.signal,
+      onProgress: progress => {
+        const merchantChanged = job.progress?.merchantId !== progress.merchantId || job.progress?.phase !== progress.phase;
+        job.runId = progress.runId;
+        job.progress = progress;
+        job.etaMs = estimateRemainingMs(job, progress);
+        notify(entry, merchantChanged);
+      }
+    }))
+    .then(result => {
+      job.runId = result.runId;
+      job.status = result.cancelled ? 'cancelled' : 'completed';
+      job.result = { success: result.success, stats: result.stats, errors: result.errors };
+    })
+    .catch(error => {
+      console.error(`[SyncJobs] Job ${job.id} failed:`, error);
+      job.status = 'failed';
+      job.error = error instanceof Error ? error.message : String(error);
+    })
+    .finally(() => {
+      job.finishedAt = new Date().toISOString();
+      job.etaMs = null;
+      console.log(`[SyncJobs] Job ${job.id} ${job.status}${job.runId ? ` (run ${job.runId})` : ''}`);
+      notify(entry, true);
+      entry.listeners.clear();
+      pruneFinishedJobs();
+    })
+    .then(() => job);
+
+  return job;
+}
+
+/**
+ * Resolve with the job once it has finished, whatever its outcome
+ */
+export function waitForSyncJob(jobId: string): Promise<SyncJob> {
+  const entry = jobs.get(jobId);
+  if (!entry?.finished) {
+    return Promise.reject(new Error(`Sync job ${jobId} not found`));
+  }
+  return entry.finished;
+}
+
+/**
+ * Ask a running job to stop; returns false when the job is unknown or already finished
+ */
+export function cancelSyncJob(jobId: string): boolean {
+  const entry = jobs.get(jobId);
+  if (!entry || entry.job.status !== 'running') return false;
+
+  console.log(`[SyncJobs] Cancelling job ${jobId}`);
+  entry.controller.abort();
+  return true;
+}
+
+/**
+ * Receive a job's updates until it finishes; returns the unsubscribe function,
+ * or null when the job is unknown
+ */
+export function subscribeSyncJob(jobId: string, listener: SyncJobListener): (() => void) | null {
+  const entry = jobs.get(jobId);
+  if (!entry) return null;
+
+  entry.listeners.add(listener);
+  return () => {
+    entry.listeners.delete(listener);
+  };
+}
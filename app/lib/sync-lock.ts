@@ -0,0 +1,135 @@
+/**
+ * Cross-process sync lock
+ *
+ * `npm run sync`, the API's background jobs and the scheduler can run in
+ * different processes against the same database. syncAllCustomers takes a
+ * lease in sync_locks first and renews it while it runs; a second sync gets a
+ * SyncLockedError naming the holder. A lease nobody renewed before it expired
+ * (the holder crashed or was killed) is taken over.
+ */
+
+import os from 'node:os';
+import { randomUUID } from 'node:crypto';
+import { db } from './db';
+import { getAppConfig } from './config';
+import { abandonSyncRun, type SyncTrigger } from './sync-history';
+
+const LOCK_NAME = 'customer-sync';
+
+export interface SyncLockHolder {
+  owner: string;
+  trigger: SyncTrigger;
+  hostname: string;
+  pid: number;
+  runId: number | null;
+  acquiredAt: number;
+  heartbeatAt: number;
+  expiresAt: number;
+}
+
+export interface SyncLease {
+  owner: string;
+  setRunId(runId: number): void;
+  release(): void;
+}
+
+/**
+ * "Sync already running (started by api on web-1, pid 42, at ...)"
+ */
+export function describeSyncLock(holder: SyncLockHolder): string {
+  const run = holder.runId ? `run #${holder.runId}, ` : '';
+  return `Sync already running (started by ${holder.trigger} on ${holder.hostname}, ${run}pid ${holder.pid}, at ${new Date(holder.acquiredAt).toISOString()})`;
+}
+
+export class SyncLockedError extends Error {
+  readonly holder: SyncLockHolder;
+
+  constructor(holder: SyncLockHolder) {
+    super(describeSyncLock(holder));
+    this.name = 'SyncLockedError';
+    this.holder = holder;
+  }
+}
+
+function readLock(): SyncLockHolder | undefined {
+  return db.prepare(`
+    SELECT owner, trigger, hostname, pid, runId, acquiredAt, heartbeatAt, expiresAt FROM sync_locks WHERE name = ?
+  `).get(LOCK_NAME) as SyncLockHolder | undefined;
+}
+
+/**
+ * The sync holding the lock, or null when none is running (or its lease expired)
+ */
+export function getSyncLockHolder(): SyncLockHolder | null {
+  const holder = readLock();
+  return holder && holder.expiresAt > Date.now() ? holder : null;
+}
+
+/**
+ * Take the sync lock or throw SyncLockedError; release the lease when the sync ends
+ */
+export function acquireSyncLock(trigger: SyncTrigger): SyncLease {
+  const leaseMs = getAppConfig().sync.lockLeaseMs;
+  const now = Date.now();
+  const holder: SyncLockHolder = {
+    owner: randomUUID(),
+    trigger,
+    hostname: os.hostname(),
+    pid: process.pid,
+    runId: null,
+    acquiredAt: now,
+    heartbeatAt: now,
+    expiresAt: now + leaseMs
+  };
+
+  // IMMEDIATE: the check and the write happen under SQLite's write lock, so two processes can't both win
+  const stale = db.transaction(() => {
+    const current = readLock();
+    if (current && current.expiresAt > now) {
+      throw new SyncLockedError(current);
+    }
+    db.prepare(`
+      INSERT OR REPLACE INTO sync_locks (name, owner, trigger, hostname, pid, runId, acquiredAt, heartbeatAt, expiresAt)
+      VALUES (?, ?, ?, ?, ?, NULL, ?, ?, ?)
+    `).run(LOCK_NAME, holder.owner, holder.trigger, holder.hostname, holder.pid, holder.acquiredAt, holder.heartbeatAt, holder.expiresAt);
+    return current;
+  }).immediate();
+
+  if (stale) {
+    console.warn(`[SyncLock] Took over a stale lock from ${stale.trigger} (pid ${stale.pid} on ${stale.hostname}, last heartbeat ${new Date(stale.heartbeatAt).toISOString()})`);
+    if (stale.runId) {
+      abandonSyncRun(stale.runId, `Sync stopped without finishing; its lock expired and was taken over by ${trigger}`);
+    }
+  }
+
+  const heartbeat = setInterval(() => {
+    const beatAt = Date.now();
+    let changes: number;
+    try {
+      ({ changes } = db.prepare(`
+        UPDATE sync_locks SET heartbeatAt = ?, expiresAt = ? WHERE name = ? AND owner = ?
+      `).run(beatAt, beatAt + leaseMs, LOCK_NAME, holder.owner));
+    } catch (error) {
+      // e.g. SQLITE_BUSY while another process writes; the lease survives a few missed beats
+      console.warn('[SyncLock] Heartbeat failed, will retry on the next beat:', error instanceof Error ? error.message : error);
+      return;
+    }
+    if (changes === 0) {
+      console.warn('[SyncLock] Lost the sync lock to another process; this sync is no longer exclusive');
+      clearInterval(heartbeat);
+    }
+  }, Math.floor(leaseMs / 3));
+  // A CLI sync exits when its work is done, not when the heartbeat says so
+  heartbeat.unref();
+
+  return {
+    owner: holder.owner,
+    setRunId(runId: number) {
+      db.prepare(`UPDATE sync_locks SET runId = ? WHERE name = ? AND owner = ?`).run(runId, LOCK_NAME, holder.owner);
+    },
+    release() {
+      clearInterval(heartbeat);
+      db.prepare(`DELETE FROM sync_locks WHERE name = ? AND owner = ?`).run(LOCK_NAME, holder.owner);
+    }
+  };
+}
@@ -14,6 +14,7 @@ export const translations = {
     
     // Filters
     "action-required": "Action requise",
+    "payment-failed": "Paiement refusé",
     "expired": "Expirés",
     "expiring": "Expirent bientôt",
     "no-cards": "Sans cartes",
@@ -22,7 +23,7 @@ export const translations = {
     "new-without-cards": "Nouveaux sans cartes",
     
     // Filter descriptions
-    "action-required-tooltip": "Nouveaux clients (≤3 mois) OU Cartes expirées ≤6 mois OU Cartes expirant ≤30 jours (Clients d'affaires seulement)",
+    "action-required-tooltip": "Paiement refusé sur une carte enregistrée OU Nouveaux clients (≤3 mois) OU Cartes expirées ≤6 mois OU Cartes expirant ≤30 jours (Clients d'affaires seulement)",
     
     // Customer info
     "customer-since": "Client depuis",
@@ -84,6 +85,7 @@ export const translations = {
     "EXPIRED": "EXPIRÉ",
     "EXPIRING": "EXPIRE",
     "NO PAYMENT METHOD": "AUCUN MODE DE PAIEMENT",
+    "PAYMENT FAILED": "PAIEMENT REFUSÉ",
     "Active": "Actif",
     
     // Home page
@@ -116,6 +118,19 @@ export const translations = {
     "last-sync": "Dernière synchro",
     "updated": "Mis à jour",
     "contact": "Contact",
+    "merchants": "Marchands",
+    
+    // Purchase activity
+    "last-purchase": "Dernier achat",
+    "lifetime-spend": "Total dépensé",
+    "no-purchases": "Aucun achat",
+    "inactive-customer": "Inactif : aucun achat depuis plus d'un an",
+    
+    // Customer notes
+    "mark-contacted": "Marquer comme contacté",
+    "contacted-expired-card": "Contacté re: carte expirée",
+    "note-conflict": "La note a été modifiée dans Clover entre-temps, rechargez la page",
+    "note-failed": "Impossible d'enregistrer la note dans Clover",
   },
   
   en: {
@@ -133,6 +148,7 @@ export const translations = {
     
     // Filters
     "action-required": "Action Required",
+    "payment-failed": "Payment Failed",
     "expired": "Expired",
     "expiring": "Expiring",
     "no-cards": "No Cards",
@@ -141,7 +157,7 @@ export const translations = {
     "new-without-cards": "New Without Cards",
     
     // Filter descriptions
-    "action-required-tooltip": "New customers (≤3 months) OR Cards expired ≤6 months OR Cards expiring ≤30 days (Business customers only)",
+    "action-required-tooltip": "Declined charge on a stored card OR New customers (≤3 months) OR Cards expired ≤6 months OR Cards expiring ≤30 days (Business customers only)",
     
     // Customer info
     "customer-since": "Customer since",
@@ -205,6 +221,7 @@ export const translations = {
     "EXPIRED": "EXPIRED",
     "EXPIRING": "EXPIRING",
     "NO PAYMENT METHOD": "NO PAYMENT METHOD",
+    "PAYMENT FAILED": "PAYMENT FAILED",
     "Active": "Active",
     
     // Home page
@@ -237,6 +254,19 @@ export const translations = {
     "last-sync": "Last sync",
     "updated": "Updated",
     "contact": "Contact",
+    "merchants": "Merchants",
+    
+    // Purchase activity
+    "last-purchase": "Last purchase",
+    "lifetime-spend": "Lifetime spend",
+    "no-purchases": "No purchases",
+    "inactive-customer": "Inactive: no purchase in over a year",
+    
+    // Customer notes
+    "mark-contacted": "Mark as contacted",
+    "contacted-expired-card": "Contacted re: expired card",
+    "note-conflict": "The note was changed in Clover since this page loaded, reload and try again",
+    "note-failed": "Could not save the note to Clover",
   }
 } as const;
 
@@ -11,19 +11,6 @@ import type { Route } from "./+types/root";
 import "./app.css";
 import { LanguageProvider } from "./lib/language-context";
 
-// Initialize server on first load
-let serverInitialized = false;
-
-export async function loader() {
-  // Server-side initialization (only run once)
-  if (!serverInitialized) {
-    const { initializeServer } = await import("./services/startup.server");
-    initializeServer();
-    serverInitialized = true;
-  }
-  return null;
-}
-
 export const links: Route.LinksFunction = () => [
   { rel: "preconnect", href: "https://fonts.googleapis.com" },
   {
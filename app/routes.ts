@@ -7,7 +7,19 @@ export default [
   route("customers/print", "routes/customers.print.tsx"),
   route("admin", "routes/admin.tsx"),
   route("api/customers", "routes/api.customers.tsx"),
+  route("api/customers/:id/note", "routes/api.customers.note.tsx"),
   route("api/sync-clover", "routes/api.sync-clover.tsx"),
+  route("api/sync-clover/runs", "routes/api.sync-clover.runs.tsx"),
+  route("api/sync-clover/runs/:id", "routes/api.sync-clover.runs.run.tsx"),
+  route("api/sync-clover/jobs/:id", "routes/api.sync-clover.jobs.job.tsx"),
+  route("api/sync-clover/jobs/:id/events", "routes/api.sync-clover.jobs.events.tsx"),
+  route("api/sync-clover/jobs/:id/cancel", "routes/api.sync-clover.jobs.cancel.tsx"),
   route("api/cache", "routes/api.cache.tsx"),
   route("api/cache-status", "routes/api.cache-status.tsx"),
+  route("api/schema-drift", "routes/api.schema-drift.tsx"),
+  route("api/webhooks/clover", "routes/api.webhooks.clover.tsx"),
+  route("api/oauth/clover/connect", "routes/api.oauth.clover.connect.tsx"),
+  route("api/oauth/clover/callback", "routes/api.oauth.clover.callback.tsx"),
+  route("api/admin/config", "routes/api.admin.config.tsx"),
+  route("api/admin/merchants/:id/check", "routes/api.admin.merchants.check.tsx"),
 ] satisfies RouteConfig;
@@ -1,3 +1,26 @@
+import type { Route } from "./+types/admin";
+import { useEffect, useState } from "react";
+import { Form, Link, useActionData, useFetcher, useLoaderData, useNavigation } from "react-router";
+import { fetchMerchantProfile, getMerchantProfile } from "~/lib/merchants";
+import { ConfigError, getAppConfig, getMerchantsFilePath } from "~/lib/config";
+import {
+  addMerchant,
+  getEffectiveConfig,
+  hasMerchantOverrides,
+  hasStoredApiToken,
+  loadMerchantSettings,
+  resetMerchantSettings,
+  setMerchantApiToken,
+  updateMerchantSettings
+} from "~/lib/merchant-settings";
+import { resolveCloverBaseUrl } from "~/lib/clover-client";
+import { serializeCloverError } from "~/lib/clover-errors";
+import { getOAuthSettings, getOAuthTokenStatus } from "~/lib/clover-oauth";
+import type { MerchantCheckReport } from "~/lib/merchant-check";
+import { getSyncRun, listSyncRuns, type SyncErrorRecord, type SyncRun, type SyncRunStatus } from "~/lib/sync-history";
+import { getActiveSyncJob, type SyncJob } from "~/lib/sync-jobs";
+import { getSchedule, listSchedules, runSchedule, updateSchedule, type ScheduleStatusView } from "~/lib/scheduler";
+
 export function meta() {
   return [
     { title: "Admin - Merchant Configuration" },
@@ -5,86 +28,854 @@ export function meta() {
   ];
 }
 
-export default function Admin() {
-  const configs = [
-    {
-      currency: 'USD',
-      merchantId: process.env.CLOVER_USD_MERCHANT_ID || 'Not configured',
-      enabled: process.env.CLOVER_USD_ENABLED === 'true',
-      environment: 'production'
-    },
-    {
-      currency: 'CAD', 
-      merchantId: process.env.CLOVER_CAD_MERCHANT_ID || 'Not configured',
-      enabled: process.env.CLOVER_CAD_ENABLED === 'true',
-      environment: 'production'
+export async function loader({ request }: Route.LoaderArgs) {
+  const searchParams = new URL(request.url).searchParams;
+  const requestedTab = searchParams.get('tab');
+  const tab = requestedTab === 'history' || requestedTab === 'schedules' ? requestedTab : 'merchants';
+  const runId = parseInt(searchParams.get('run') || '');
+
+  const configs = loadMerchantSettings().map(merchant => ({
+    merchantId: merchant.id,
+    label: merchant.label,
+    currency: merchant.currency,
+    enabled: merchant.enabled,
+    environment: merchant.environment,
+    region: merchant.region,
+    baseUrl: merchant.baseUrl,
+    apiTokenEnv: merchant.apiTokenEnv || null,
+    source: merchant.source,
+    storedToken: hasStoredApiToken(merchant.id),
+    hasOverrides: hasMerchantOverrides(merchant.id)
+  }));
+
+  // Profiles are cached by the sync; missing until the first sync of a merchant
+  return {
+    configs: configs.map(config => ({
+      ...config,
+      apiHost: resolveCloverBaseUrl(config),
+      profile: getMerchantProfile(config.merchantId) || null,
+      oauth: getOAuthTokenStatus(config.merchantId) || null
+    })),
+    merchantsFile: getMerchantsFilePath(),
+    effectiveConfig: getEffectiveConfig(),
+    oauthEnabled: getOAuthSettings() !== null,
+    connected: searchParams.get('connected'),
+    oauthError: searchParams.get('oauthError'),
+    tab,
+    activeJob: getActiveSyncJob() ?? null,
+    runs: tab === 'history' ? listSyncRuns(50) : [],
+    selectedRun: tab === 'history' && runId ? getSyncRun(runId) ?? null : null,
+    schedules: tab === 'schedules' ? listSchedules() : [],
+    schedulerEnabled: getAppConfig().scheduler.enabled
+  };
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const formData = await request.formData();
+  const intent = formData.get('intent')?.toString();
+  const merchantId = formData.get('merchantId')?.toString() || '';
+  const scheduleId = formData.get('scheduleId')?.toString() || '';
+  const field = (name: string) => formData.get(name)?.toString().trim() || undefined;
+
+  try {
+    switch (intent) {
+      case 'add': {
+        const merchant = addMerchant({
+          id: field('id') || '',
+          label: field('label') || '',
+          currency: (field('currency') || '').toUpperCase(),
+          environment: field('environment') as 'sandbox' | 'production' | undefined,
+          region: field('region') as 'na' | 'eu' | 'la' | undefined,
+          baseUrl: field('baseUrl'),
+          apiToken: field('apiToken'),
+          enabled: true
+        });
+        return { success: true, message: `Added ${merchant.label}` };
+      }
+      case 'relabel': {
+        const merchant = updateMerchantSettings(merchantId, { label: field('label') || '' });
+        return { success: true, message: `Renamed to ${merchant.label}` };
+      }
+      case 'enable':
+      case 'disable': {
+        const merchant = updateMerchantSettings(merchantId, { enabled: intent === 'enable' });
+        return { success: true, message: `${merchant.label} ${merchant.enabled ? 'enabled' : 'disabled'}` };
+      }
+      case 'rotate-token': {
+        setMerchantApiToken(merchantId, field('apiToken') || '');
+        return { success: true, message: 'API token saved; the next sync uses it' };
+      }
+      case 'test': {
+        const profile = await fetchMerchantProfile(merchantId);
+        return { success: true, message: `Connected to ${profile.name || merchantId} (${profile.currency})` };
+      }
+      case 'reset': {
+        resetMerchantSettings(merchantId);
+        return { success: true, message: `Admin changes for ${merchantId} removed` };
+      }
+      case 'schedule-update': {
+        const schedule = updateSchedule(scheduleId, {
+          cronExpression: field('cronExpression') || '',
+          timezone: field('timezone') ?? null
+        });
+        return { success: true, message: `${schedule.label} now runs at ${schedule.cronExpression}` };
+      }
+      case 'schedule-enable':
+      case 'schedule-disable': {
+        const schedule = updateSchedule(scheduleId, { enabled: intent === 'schedule-enable' });
+        return { success: true, message: `${schedule.label} ${schedule.enabled ? 'enabled' : 'disabled'}` };
+      }
+      case 'schedule-run': {
+        const schedule = getSchedule(scheduleId);
+        if (!schedule) {
+          throw new ConfigError(`Schedule ${scheduleId} not found`);
+        }
+        // Runs in the background; the schedules tab shows its outcome
+        runSchedule(schedule.id, 'manual').catch(error => console.error('[Scheduler] Run now failed:', error));
+        return { success: true, message: `${schedule.label} started` };
+      }
+      default:
+        return { success: false, message: 'Invalid action' };
     }
-  ];
+  } catch (error) {
+    console.error('Admin action error:', error);
+    return {
+      success: false,
+      message: error instanceof ConfigError ? error.message : serializeCloverError(error).description
+    };
+  }
+}
+
+// Per-permission pass/fail matrix from /api/admin/merchants/:id/check
+function MerchantCheck({ merchantId }: { merchantId: string }) {
+  const fetcher = useFetcher<{ success: boolean; report?: MerchantCheckReport; message?: string }>();
+  const report = fetcher.data?.report;
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-100">
+      <fetcher.Form method="post" action={`/api/admin/merchants/${encodeURIComponent(merchantId)}/check`} className="flex items-center gap-3">
+        <button
+          type="submit"
+          disabled={fetcher.state !== 'idle'}
+          className="px-3 py-1.5 bg-gray-100 text-gray-800 rounded-md text-sm hover:bg-gray-200 disabled:opacity-50"
+        >
+          {fetcher.state !== 'idle' ? 'Checking…' : 'Check permissions'}
+        </button>
+        {report && (
+          <span className={`text-sm font-medium ${report.passed ? 'text-green-700' : 'text-red-700'}`}>
+            {report.passed ? 'All checks passed' : 'Some checks failed'} ({report.authentication === 'oauth' ? 'OAuth' : 'API token'}, {report.apiHost})
+          </span>
+        )}
+        {fetcher.data && !fetcher.data.success && (
+          <span className="text-sm text-red-700">❌ {fetcher.data.message}</span>
+        )}
+      </fetcher.Form>
+      {report && (
+        <table className="mt-3 w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="py-1 font-medium">Permission</th>
+              <th className="py-1 font-medium">Result</th>
+              <th className="py-1 font-medium">Status</th>
+              <th className="py-1 font-medium">Latency</th>
+              <th className="py-1 font-medium">Details</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.probes.map(probe => (
+              <tr key={probe.name} className="border-t border-gray-100">
+                <td className="py-1 text-gray-900">{probe.permission}</td>
+                <td className="py-1">{probe.passed ? '✅ Pass' : '❌ Fail'}</td>
+                <td className="py-1 text-gray-600">{probe.status ?? '–'}</td>
+                <td className="py-1 text-gray-600">{probe.latencyMs !== null ? `${probe.latencyMs} ms` : '–'}</td>
+                <td className="py-1 text-gray-600">{probe.message}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+function formatEta(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+function jobPercent(job: SyncJob): number {
+  if (job.status !== 'running') return 100;
+  const progress = job.progress;
+  if (!progress) return 0;
+  if (job.expectedCustomers) {
+    return Math.min(99, Math.round(progress.customersStored / job.expectedCustomers * 100));
+  }
+  // No earlier run to compare with: advance per merchant
+  return Math.round((progress.merchantIndex - 1) / progress.merchantCount * 100);
+}
+
+// Start a background sync and follow its progress over the job's event stream
+function SyncProgressPanel({ initialJob }: { initialJob: SyncJob | null }) {
+  const [job, setJob] = useState<SyncJob | null>(initialJob);
+  const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState('auto');
+  const running = job?.status === 'running';
+
+  useEffect(() => {
+    if (!job || job.status !== 'running') return;
+    const source = new EventSource(`/api/sync-clover/jobs/${job.id}/events`);
+    const update = (event: MessageEvent) => setJob(JSON.parse(event.data));
+    source.addEventListener('progress', update);
+    source.addEventListener('done', event => {
+      update(event as MessageEvent);
+      source.close();
+    });
+    return () => source.close();
+  }, [job?.id, running]);
+
+  const start = async () => {
+    setError(null);
+    const response = await fetch(`/api/sync-clover?mode=${mode}`, { method: 'POST' });
+    const data = await response.json();
+    if (data.job) setJob(data.job);
+    if (!response.ok) setError(data.message || data.error);
+  };
+
+  const cancel = async () => {
+    if (!job) return;
+    const response = await fetch(`/api/sync-clover/jobs/${job.id}/cancel`, { method: 'POST' });
+    if (!response.ok) setError((await response.json()).error);
+  };
+
+  const percent = job ? jobPercent(job) : 0;
+  const progress = job?.progress;
+
+  return (
+    <div className="p-4 bg-white border border-gray-200 rounded-lg shadow-sm">
+      <h3 className="font-semibold text-gray-900 mb-2">Sync from Clover</h3>
+      <div className="flex items-center gap-3 mb-3">
+        <select
+          value={mode}
+          onChange={event => setMode(event.target.value)}
+          disabled={running}
+          className="px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+        >
+          <option value="auto">Auto</option>
+          <option value="incremental">Incremental</option>
+          <option value="full">Full</option>
+        </select>
+        <button
+          type="button"
+          onClick={start}
+          disabled={running}
+          className="px-4 py-1.5 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+        >
+          {running ? 'Syncing…' : 'Sync now'}
+        </button>
+        {running && (
+          <button
+            type="button"
+            onClick={cancel}
+            className="px-3 py-1.5 bg-gray-100 text-gray-800 rounded-md text-sm hover:bg-gray-200"
+          >
+            Cancel
+          </button>
+        )}
+        {error && <span className="text-sm text-red-700">❌ {error}</span>}
+      </div>
+
+      {job && (
+        <>
+          <div className="w-full h-3 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className={`h-full transition-all ${
+                job.status === 'failed' ? 'bg-red-500' : job.status === 'cancelled' ? 'bg-gray-400' : job.result && !job.result.success ? 'bg-amber-500' : 'bg-blue-600'
+              }`}
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+          <p className="text-sm text-gray-700 mt-2">
+            {running && !progress && 'Starting…'}
+            {running && progress && (
+              <>
+                {progress.label} ({progress.merchantIndex}/{progress.merchantCount}), {progress.phase} page {progress.page},{' '}
+                {progress.customersStored} customers stored
+                {job.etaMs !== null && `, about ${formatEta(job.etaMs)} left`}
+              </>
+            )}
+            {job.status === 'completed' && (
+              job.result?.success
+                ? `✅ Synced ${job.result.stats.totalCustomers} customers`
+                : `⚠️ Finished with ${job.result?.errors.length} errors`
+            )}
+            {job.status === 'cancelled' && `Cancelled after ${progress?.customersStored ?? 0} customers`}
+            {job.status === 'failed' && `❌ ${job.error}`}
+            {job.runId && !running && (
+              <>
+                {' '}
+                <Link to={`?tab=history&run=${job.runId}`} className="text-blue-600 hover:underline">Run #{job.runId}</Link>
+              </>
+            )}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
+const SCHEDULE_ACTIONS: Record<ScheduleStatusView['action'], string> = {
+  sync: 'Sync',
+  report: 'Email reports',
+  'sync-and-email': 'Sync, then email reports'
+};
+
+const formatTimestamp = (seconds: number | null) => seconds ? new Date(seconds * 1000).toLocaleString() : 'never';
+
+// Schedules from the schedules table: timing, next/last run and "run now"
+function Schedules({ schedules, schedulerEnabled, busy }: {
+  schedules: ScheduleStatusView[];
+  schedulerEnabled: boolean;
+  busy: boolean;
+}) {
+  return (
+    <div className="space-y-6">
+      {!schedulerEnabled && (
+        <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          The scheduler is off (<code className="bg-yellow-100 px-1 rounded">SCHEDULER_ENABLED=false</code>): schedules only run with "Run now".
+        </div>
+      )}
+
+      {schedules.map(schedule => (
+        <div key={schedule.id} className="bg-white border border-gray-200 rounded-lg p-6 shadow-sm">
+          <div className="flex items-start justify-between mb-4">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">{schedule.label}</h3>
+              <p className="text-sm text-gray-600">
+                {SCHEDULE_ACTIONS[schedule.action]}
+                {schedule.options.mode && ` (${schedule.options.mode})`}
+                {schedule.action !== 'sync' && `: ${(schedule.options.filters ?? ['expired', 'expiring']).join(', ')}`}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Form method="post">
+                <input type="hidden" name="scheduleId" value={schedule.id} />
+                <button
+                  type="submit"
+                  name="intent"
+                  value="schedule-run"
+                  disabled={busy || schedule.running}
+                  className="px-3 py-1.5 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {schedule.running ? 'Running…' : 'Run now'}
+                </button>
+              </Form>
+              <Form method="post">
+                <input type="hidden" name="scheduleId" value={schedule.id} />
+                <button
+                  type="submit"
+                  name="intent"
+                  value={schedule.enabled ? 'schedule-disable' : 'schedule-enable'}
+                  disabled={busy}
+                  className={`px-3 py-1.5 rounded-md text-sm font-medium disabled:opacity-50 ${
+                    schedule.enabled ? 'bg-green-100 text-green-800 hover:bg-green-200' : 'bg-gray-100 text-gray-800 hover:bg-gray-200'
+                  }`}
+                >
+                  {schedule.enabled ? 'Enabled' : 'Disabled'}
+                </button>
+              </Form>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4 text-sm mb-4">
+            <div>
+              <p className="text-gray-500">Next run</p>
+              <p className="text-gray-900">
+                {schedule.nextRunAt ? new Date(schedule.nextRunAt).toLocaleString() : '–'}
+              </p>
+            </div>
+            <div>
+              <p className="text-gray-500">Last run</p>
+              <p className="text-gray-900">
+                {formatTimestamp(schedule.lastRunAt)}
+                {schedule.lastStatus && (
+                  <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium ${
+                    schedule.lastStatus === 'success' ? 'bg-green-100 text-green-800'
+                      : schedule.lastStatus === 'failed' ? 'bg-red-100 text-red-800'
+                      : schedule.lastStatus === 'running' ? 'bg-blue-100 text-blue-800'
+                      : 'bg-gray-100 text-gray-700'
+                  }`}>{schedule.lastStatus}</span>
+                )}
+              </p>
+              {schedule.lastMessage && <p className="text-gray-600 mt-1 break-words">{schedule.lastMessage}</p>}
+            </div>
+          </div>
+
+          <Form method="post" className="flex flex-wrap items-end gap-3">
+            <input type="hidden" name="scheduleId" value={schedule.id} />
+            <label className="text-sm text-gray-700">
+              Cron expression
+              <input
+                name="cronExpression"
+                defaultValue={schedule.cronExpression}
+                className="block mt-1 px-2 py-1.5 border border-gray-300 rounded-md font-mono"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Time zone
+              <input
+                name="timezone"
+                defaultValue={schedule.timezone ?? ''}
+                placeholder={schedule.effectiveTimezone}
+                className="block mt-1 px-2 py-1.5 border border-gray-300 rounded-md"
+              />
+            </label>
+            <button
+              type="submit"
+              name="intent"
+              value="schedule-update"
+              disabled={busy}
+              className="px-3 py-1.5 bg-gray-100 text-gray-800 rounded-md text-sm hover:bg-gray-200 disabled:opacity-50"
+            >
+              Save
+            </button>
+          </Form>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const RUN_STATUS_STYLES: Record<SyncRunStatus, string> = {
+  running: 'bg-blue-100 text-blue-800',
+  success: 'bg-green-100 text-green-800',
+  partial: 'bg-amber-100 text-amber-800',
+  failed: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-700'
+};
+
+function formatDuration(run: Pick<SyncRun, 'startedAt' | 'finishedAt'>): string {
+  if (!run.finishedAt) return '–';
+  const seconds = run.finishedAt - run.startedAt;
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+// Recent sync runs from sync_runs, with the selected run's merchants and errors
+function SyncHistory({ runs, selectedRun }: {
+  runs: SyncRun[];
+  selectedRun: (SyncRun & { errors: SyncErrorRecord[] }) | null;
+}) {
+  if (runs.length === 0) {
+    return <p className="text-gray-600">No sync runs recorded yet. Run <code className="bg-gray-100 px-1 rounded">npm run sync</code> or sync from the dashboard.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white border border-gray-200 rounded-lg shadow-sm overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-left text-gray-500">
+            <tr>
+              <th className="px-3 py-2 font-medium">Run</th>
+              <th className="px-3 py-2 font-medium">Started</th>
+              <th className="px-3 py-2 font-medium">Trigger</th>
+              <th className="px-3 py-2 font-medium">Mode</th>
+              <th className="px-3 py-2 font-medium">Status</th>
+              <th className="px-3 py-2 font-medium">Duration</th>
+              <th className="px-3 py-2 font-medium text-right">Fetched</th>
+              <th className="px-3 py-2 font-medium text-right">Synced</th>
+              <th className="px-3 py-2 font-medium text-right">Failed</th>
+              <th className="px-3 py-2 font-medium text-right">Deleted</th>
+              <th className="px-3 py-2 font-medium text-right">Retries</th>
+              <th className="px-3 py-2 font-medium text-right">Errors</th>
+            </tr>
+          </thead>
+          <tbody>
+            {runs.map(run => (
+              <tr key={run.id} className={`border-t border-gray-100 ${selectedRun?.id === run.id ? 'bg-blue-50' : ''}`}>
+                <td className="px-3 py-2">
+                  <Link to={`?tab=history&run=${run.id}`} className="text-blue-600 hover:underline">#{run.id}</Link>
+                </td>
+                <td className="px-3 py-2 text-gray-700">{new Date(run.startedAt * 1000).toLocaleString()}</td>
+                <td className="px-3 py-2 text-gray-700">{run.trigger}</td>
+                <td className="px-3 py-2 text-gray-700">{run.mode}</td>
+                <td className="px-3 py-2">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${RUN_STATUS_STYLES[run.status]}`}>{run.status}</span>
+                </td>
+                <td className="px-3 py-2 text-gray-700">{formatDuration(run)}</td>
+                <td className="px-3 py-2 text-right">{run.fetched}</td>
+                <td className="px-3 py-2 text-right">{run.synced}</td>
+                <td className="px-3 py-2 text-right">{run.failed}</td>
+                <td className="px-3 py-2 text-right">{run.deleted}</td>
+                <td className="px-3 py-2 text-right">{run.retries}</td>
+                <td className="px-3 py-2 text-right">{run.errorCount}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {selectedRun && (
+        <div className="bg-white border border-gray-200 rounded-lg p-6 shadow-sm">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">
+            Run #{selectedRun.id}: {selectedRun.trigger}, {selectedRun.mode}, {selectedRun.status}
+          </h2>
+
+          <table className="w-full text-sm mb-6">
+            <thead className="text-left text-gray-500">
+              <tr>
+                <th className="py-1 font-medium">Merchant</th>
+                <th className="py-1 font-medium">Mode</th>
+                <th className="py-1 font-medium text-right">Fetched</th>
+                <th className="py-1 font-medium text-right">Synced</th>
+                <th className="py-1 font-medium text-right">Failed</th>
+                <th className="py-1 font-medium text-right">Deleted</th>
+                <th className="py-1 font-medium text-right">Retries</th>
+                <th className="py-1 font-medium text-right">Orders</th>
+              </tr>
+            </thead>
+            <tbody>
+              {Object.entries(selectedRun.merchantStats).map(([merchantId, merchant]) => (
+                <tr key={merchantId} className="border-t border-gray-100">
+                  <td className="py-1 text-gray-900">{merchant.label} <span className="text-gray-400">({merchantId})</span></td>
+                  <td className="py-1 text-gray-700">{merchant.mode}</td>
+                  <td className="py-1 text-right">{merchant.fetched}</td>
+                  <td className="py-1 text-right">{merchant.synced}</td>
+                  <td className="py-1 text-right">{merchant.errors}</td>
+                  <td className="py-1 text-right">{merchant.deleted}</td>
+                  <td className="py-1 text-right">{merchant.retries}</td>
+                  <td className="py-1 text-right">{merchant.orders ? `${merchant.orders.stored}/${merchant.orders.fetched}` : '–'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <h3 className="font-semibold text-gray-900 mb-2">Failures ({selectedRun.errors.length})</h3>
+          {selectedRun.errors.length === 0 ? (
+            <p className="text-sm text-gray-600">No errors in this run.</p>
+          ) : (
+            <ul className="space-y-2 text-sm">
+              {selectedRun.errors.map(error => (
+                <li key={error.id} className="border border-red-100 bg-red-50 rounded p-3">
+                  <p className="font-medium text-red-800">
+                    {error.description || error.message}
+                    {error.status ? ` (${error.status})` : ''}
+                  </p>
+                  <p className="text-red-700">
+                    {error.kind}
+                    {error.merchantId && <> · {selectedRun.merchantStats[error.merchantId]?.label ?? error.merchantId}</>}
+                    {error.customerId && <> · customer {error.customerId}</>}
+                    {error.endpoint && <> · <code>{error.endpoint}</code></>}
+                  </p>
+                  {error.description && error.description !== error.message && (
+                    <p className="text-xs text-gray-600 mt-1 break-all">{error.message}</p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function Admin() {
+  const { configs, merchantsFile, effectiveConfig, oauthEnabled, connected, oauthError, tab, activeJob, runs, selectedRun, schedules, schedulerEnabled } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const busy = useNavigation().state !== 'idle';
+  const formatExpiry = (seconds: number | null) => seconds ? new Date(seconds * 1000).toLocaleString() : 'no expiry reported';
 
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="max-w-4xl mx-auto">
-        <h1 className="text-3xl font-bold text-gray-900 mb-8">Admin Panel</h1>
+        <h1 className="text-3xl font-bold text-gray-900 mb-6">Admin Panel</h1>
+
+        <nav className="flex gap-1 border-b border-gray-200 mb-6">
+          {([['merchants', 'Merchants'], ['history', 'Sync history'], ['schedules', 'Schedules']] as const).map(([id, title]) => (
+            <Link
+              key={id}
+              to={`?tab=${id}`}
+              className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${
+                tab === id ? 'border-blue-600 text-blue-700' : 'border-transparent text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {title}
+            </Link>
+          ))}
+        </nav>
         
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
           <div className="flex items-center">
             <span className="text-blue-600 mr-2">ℹ️</span>
             <p className="text-blue-800">
-              Cache management and merchant configuration. Changes require server restart.
+              Cache management and merchant configuration. Changes apply on the next sync or page load.
             </p>
           </div>
         </div>
         
-        <div className="space-y-6">
-          {configs.map((config) => (
-            <div key={config.currency} className="bg-white border border-gray-200 rounded-lg p-6 shadow-sm">
-              <div className="flex items-center justify-between">
-                <div className="flex-1">
-                  <div className="flex items-center space-x-3 mb-2">
-                    <h2 className="text-xl font-semibold text-gray-900">
-                      {config.currency} Merchant
-                    </h2>
-                    <span className={`px-3 py-1 rounded-full text-sm font-medium ${
-                      config.enabled 
-                        ? 'bg-green-100 text-green-800' 
-                        : 'bg-red-100 text-red-800'
-                    }`}>
-                      {config.enabled ? '✅ Enabled' : '❌ Disabled'}
-                    </span>
-                  </div>
+        {connected && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-6 text-green-800">
+            ✅ {connected} connected through Clover OAuth.
+          </div>
+        )}
+        {actionData && (
+          <div className={`border rounded-lg p-4 mb-6 whitespace-pre-line ${
+            actionData.success ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-800'
+          }`}>
+            {actionData.success ? '✅' : '❌'} {actionData.message}
+          </div>
+        )}
+        {oauthError && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6 text-red-800">
+            ❌ Clover OAuth connection failed: {oauthError}
+          </div>
+        )}
+
+        {tab === 'merchants' ? (
+          <>
+            <div className="space-y-6">
+              {configs.map((config) => (
+                <div key={config.merchantId} className="bg-white border border-gray-200 rounded-lg p-6 shadow-sm">
+                  <div className="flex items-center justify-between">
+                    <div className="flex-1">
+                      <div className="flex items-center space-x-3 mb-2">
+                        <h2 className="text-xl font-semibold text-gray-900">
+                          {config.label}
+                        </h2>
+                        <span className={`px-3 py-1 rounded-full text-sm font-medium ${
+                          config.enabled 
+                            ? 'bg-green-100 text-green-800' 
+                            : 'bg-red-100 text-red-800'
+                        }`}>
+                          {config.enabled ? '✅ Enabled' : '❌ Disabled'}
+                        </span>
+                      </div>
                   
-                  <div className="text-sm text-gray-600 space-y-1">
-                    <p><strong>Merchant ID:</strong> {config.merchantId}</p>
-                    <p><strong>Environment:</strong> {config.environment}</p>
+                      <div className="text-sm text-gray-600 space-y-1">
+                        <p><strong>Merchant ID:</strong> {config.merchantId}</p>
+                        <p><strong>Currency:</strong> {config.currency}</p>
+                        {config.profile?.name && (
+                          <p><strong>Clover name:</strong> {config.profile.name}</p>
+                        )}
+                        <p><strong>Environment:</strong> {config.environment} ({config.region?.toUpperCase()})</p>
+                        <p><strong>API host:</strong> {config.apiHost}</p>
+                        {config.oauth ? (
+                          <>
+                            <p>
+                              <strong>Authentication:</strong> OAuth, connected {new Date(config.oauth.connectedAt * 1000).toLocaleString()}
+                            </p>
+                            <p><strong>Access token expires:</strong> {formatExpiry(config.oauth.accessTokenExpiresAt)}</p>
+                            {config.oauth.hasRefreshToken && (
+                              <p><strong>Refresh token expires:</strong> {formatExpiry(config.oauth.refreshTokenExpiresAt)}</p>
+                            )}
+                          </>
+                        ) : (
+                          <p>
+                            <strong>Authentication:</strong>{' '}
+                            {config.storedToken
+                              ? 'API token saved from this page'
+                              : config.apiTokenEnv ? `API token from ${config.apiTokenEnv}` : 'Not connected'}
+                          </p>
+                        )}
+                        {config.profile && (
+                          <>
+                            {(config.profile.address1 || config.profile.city) && (
+                              <p>
+                                <strong>Address:</strong>{' '}
+                                {[config.profile.address1, config.profile.city, config.profile.state, config.profile.zip, config.profile.country]
+                                  .filter(Boolean)
+                                  .join(', ')}
+                              </p>
+                            )}
+                            {config.profile.phoneNumber && (
+                              <p><strong>Phone:</strong> {config.profile.phoneNumber}</p>
+                            )}
+                            {config.profile.timezone && (
+                              <p><strong>Timezone:</strong> {config.profile.timezone}</p>
+                            )}
+                            {config.profile.defaultCurrency && (
+                              <p><strong>Default currency:</strong> {config.profile.defaultCurrency}</p>
+                            )}
+                            <p className="text-xs text-gray-400">
+                              Profile fetched {new Date(config.profile.fetchedAt * 1000).toLocaleString()}
+                            </p>
+                          </>
+                        )}
+                      </div>
+                    </div>
+                    <div className="ml-4 flex flex-col gap-2">
+                      <Form method="post">
+                        <input type="hidden" name="merchantId" value={config.merchantId} />
+                        <button
+                          type="submit"
+                          name="intent"
+                          value="test"
+                          disabled={busy}
+                          className="w-full px-4 py-2 bg-gray-100 text-gray-800 rounded-lg text-sm font-medium hover:bg-gray-200 disabled:opacity-50"
+                        >
+                          Test connection
+                        </button>
+                      </Form>
+                      <Form method="post">
+                        <input type="hidden" name="merchantId" value={config.merchantId} />
+                        <button
+                          type="submit"
+                          name="intent"
+                          value={config.enabled ? 'disable' : 'enable'}
+                          disabled={busy}
+                          className="w-full px-4 py-2 bg-gray-100 text-gray-800 rounded-lg text-sm font-medium hover:bg-gray-200 disabled:opacity-50"
+                        >
+                          {config.enabled ? 'Disable' : 'Enable'}
+                        </button>
+                      </Form>
+                      {oauthEnabled && (
+                        <a
+                          href={`/api/oauth/clover/connect?merchantId=${encodeURIComponent(config.merchantId)}`}
+                          className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium text-center hover:bg-blue-700"
+                        >
+                          {config.oauth ? 'Reconnect merchant' : 'Connect merchant'}
+                        </a>
+                      )}
+                      {config.hasOverrides && (
+                        <Form
+                          method="post"
+                          onSubmit={(event) => {
+                            const prompt = config.source === 'admin'
+                              ? `Remove ${config.label}?`
+                              : `Discard changes made here for ${config.label}?`;
+                            if (!confirm(prompt)) event.preventDefault();
+                          }}
+                        >
+                          <input type="hidden" name="merchantId" value={config.merchantId} />
+                          <button
+                            type="submit"
+                            name="intent"
+                            value="reset"
+                            disabled={busy}
+                            className="w-full px-4 py-2 text-red-700 rounded-lg text-sm font-medium hover:bg-red-50 disabled:opacity-50"
+                          >
+                            {config.source === 'admin' ? 'Remove merchant' : 'Reset to config'}
+                          </button>
+                        </Form>
+                      )}
+                    </div>
                   </div>
+
+                  <div className="mt-4 pt-4 border-t border-gray-100 grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <Form method="post" className="flex gap-2">
+                      <input type="hidden" name="merchantId" value={config.merchantId} />
+                      <input
+                        type="text"
+                        name="label"
+                        defaultValue={config.label}
+                        required
+                        aria-label="Label"
+                        className="flex-1 px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+                      />
+                      <button
+                        type="submit"
+                        name="intent"
+                        value="relabel"
+                        disabled={busy}
+                        className="px-3 py-1.5 bg-gray-100 text-gray-800 rounded-md text-sm hover:bg-gray-200 disabled:opacity-50"
+                      >
+                        Rename
+                      </button>
+                    </Form>
+                    <Form method="post" className="flex gap-2">
+                      <input type="hidden" name="merchantId" value={config.merchantId} />
+                      <input
+                        type="password"
+                        name="apiToken"
+                        placeholder="New API token"
+                        autoComplete="off"
+                        required
+                        className="flex-1 px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+                      />
+                      <button
+                        type="submit"
+                        name="intent"
+                        value="rotate-token"
+                        disabled={busy}
+                        className="px-3 py-1.5 bg-gray-100 text-gray-800 rounded-md text-sm hover:bg-gray-200 disabled:opacity-50"
+                      >
+                        Save token
+                      </button>
+                    </Form>
+                  </div>
+
+                  <MerchantCheck merchantId={config.merchantId} />
                 </div>
-              </div>
+              ))}
             </div>
-          ))}
-        </div>
+
+            <Form method="post" className="mt-6 bg-white border border-gray-200 rounded-lg p-6 shadow-sm">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Add Merchant</h2>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+                <input name="id" placeholder="Clover merchant ID" required className="px-3 py-1.5 border border-gray-300 rounded-md" />
+                <input name="label" placeholder="Label, e.g. Québec Studio" required className="px-3 py-1.5 border border-gray-300 rounded-md" />
+                <input name="currency" placeholder="Currency, e.g. CAD" required maxLength={3} className="px-3 py-1.5 border border-gray-300 rounded-md uppercase" />
+                <select name="environment" defaultValue="" className="px-3 py-1.5 border border-gray-300 rounded-md">
+                  <option value="">Default environment</option>
+                  <option value="production">Production</option>
+                  <option value="sandbox">Sandbox</option>
+                </select>
+                <select name="region" defaultValue="" className="px-3 py-1.5 border border-gray-300 rounded-md">
+                  <option value="">Default region</option>
+                  <option value="na">North America</option>
+                  <option value="eu">Europe</option>
+                  <option value="la">Latin America</option>
+                </select>
+                <input name="baseUrl" type="url" placeholder="Base URL override (optional)" className="px-3 py-1.5 border border-gray-300 rounded-md" />
+                <input
+                  name="apiToken"
+                  type="password"
+                  placeholder={oauthEnabled ? 'API token (or connect through OAuth after adding)' : 'API token'}
+                  autoComplete="off"
+                  className="md:col-span-2 px-3 py-1.5 border border-gray-300 rounded-md"
+                />
+                <button
+                  type="submit"
+                  name="intent"
+                  value="add"
+                  disabled={busy}
+                  className="px-4 py-1.5 bg-blue-600 text-white rounded-md font-medium hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Add merchant
+                </button>
+              </div>
+            </Form>
         
-        <div className="mt-8 space-y-6">
-          <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
-            <h3 className="font-semibold text-yellow-900 mb-2">Batch Sync Control</h3>
-            <p className="text-yellow-800 text-sm mb-3">
-              Batch sync is currently disabled by default. Enable only when you need to fetch fresh data from Clover API.
-            </p>
-            <div className="bg-yellow-100 p-3 rounded text-sm font-mono">
-              ENABLE_BATCH_SYNC=true
-            </div>
-          </div>
+            <div className="mt-8 space-y-6">
+              <SyncProgressPanel initialJob={activeJob} />
           
-          <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg">
-            <h3 className="font-semibold text-gray-900 mb-2">Manual Configuration</h3>
-            <p className="text-gray-800 text-sm mb-2">
-              Edit the <code className="bg-gray-100 px-1 rounded">.env</code> file to enable/disable merchants:
-            </p>
-            <div className="bg-gray-100 p-3 rounded text-sm font-mono">
-              CLOVER_USD_ENABLED=true<br/>
-              CLOVER_CAD_ENABLED=false
+              <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg">
+                <h3 className="font-semibold text-gray-900 mb-2">Manual Configuration</h3>
+                <p className="text-gray-800 text-sm mb-2">
+                  Merchants can also be listed in <code className="bg-gray-100 px-1 rounded">{merchantsFile}</code> (see merchants.config.example.json).
+                  Changes made on this page are stored in the database and win over the file:
+                </p>
+                <div className="bg-gray-100 p-3 rounded text-sm font-mono whitespace-pre">
+                  {'{ "id": "MERCHANTID", "label": "Montreal Studio", "currency": "CAD", "enabled": true, "apiTokenEnv": "CLOVER_MTL_API_TOKEN" }'}
+                </div>
+              </div>
+
+              <details className="p-4 bg-gray-50 border border-gray-200 rounded-lg">
+                <summary className="font-semibold text-gray-900 cursor-pointer">Effective Configuration</summary>
+                <p className="text-gray-600 text-sm mt-2 mb-2">
+                  Settings in effect after defaults, secrets redacted. Also at{' '}
+                  <a href="/api/admin/config" className="text-blue-600 hover:underline">/api/admin/config</a>.
+                </p>
+                <pre className="bg-gray-100 p-3 rounded text-xs overflow-x-auto">
+                  {JSON.stringify(effectiveConfig, null, 2)}
+                </pre>
+              </details>
             </div>
-          </div>
-        </div>
+          </>
+        ) : tab === 'history' ? (
+          <SyncHistory runs={runs} selectedRun={selectedRun} />
+        ) : (
+          <Schedules schedules={schedules} schedulerEnabled={schedulerEnabled} busy={busy} />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,22 @@
+import type { Route } from "./+types/api.admin.config";
+import { ConfigError } from "~/lib/config";
+import { getEffectiveConfig } from "~/lib/merchant-settings";
+
+export async function loader({}: Route.LoaderArgs) {
+  try {
+    return Response.json({
+      config: getEffectiveConfig(),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Config error:', error);
+    return Response.json(
+      {
+        error: 'Invalid configuration',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        issues: error instanceof ConfigError ? error.issues : []
+      },
+      { status: 500 }
+    );
+  }
+}
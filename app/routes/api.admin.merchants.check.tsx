@@ -0,0 +1,23 @@
+import type { Route } from "./+types/api.admin.merchants.check";
+import { checkMerchant } from "~/lib/merchant-check";
+
+export async function action({ request, params }: Route.ActionArgs) {
+  if (request.method !== "POST") {
+    return Response.json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    const report = await checkMerchant(params.id);
+    return Response.json({ success: true, report });
+  } catch (error) {
+    console.error('Merchant check error:', error);
+    return Response.json(
+      {
+        success: false,
+        error: 'Merchant check failed',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import type { Route } from "./+types/api.customers.note";
+import { CloverSyncService } from "~/lib/clover-sync";
+import { CloverApiError, CloverConflictError } from "~/lib/clover-errors";
+
+export async function action({ request, params }: Route.ActionArgs) {
+  if (request.method !== "POST") {
+    return Response.json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  const formData = await request.formData();
+  const note = String(formData.get('note') || '').trim();
+  const append = formData.get('append') === 'true';
+  const expectedModifiedTime = formData.get('expectedModifiedTime');
+
+  if (!note) {
+    return Response.json({ success: false, message: 'Note is required' }, { status: 400 });
+  }
+
+  try {
+    const syncService = new CloverSyncService();
+    const metadata = await syncService.saveCustomerNote(params.id, note, {
+      append,
+      expectedModifiedTime: expectedModifiedTime ? parseInt(String(expectedModifiedTime), 10) : undefined
+    });
+
+    return Response.json({
+      success: true,
+      metadata,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    if (error instanceof CloverConflictError) {
+      return Response.json(
+        { success: false, error: 'conflict', message: error.describe(), currentModifiedTime: error.currentModifiedTime },
+        { status: 409 }
+      );
+    }
+
+    console.error('Customer note error:', error);
+    return Response.json(
+      {
+        success: false,
+        error: 'Failed to update note',
+        message: error instanceof CloverApiError ? error.describe() : error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,30 @@
 import type { Route } from "./+types/api.customers";
 import { db } from "~/lib/db";
+import { getMerchantLabel, getMerchantProfiles } from "~/lib/merchants";
+import { ClientStatusAnalyzer } from "~/lib/client-status-analyzer";
+
+// One row of the customers query below
+interface CustomerRow {
+  id: string;
+  firstName: string | null;
+  lastName: string | null;
+  customerSince: number | null;
+  merchantId: string;
+  merchantCurrency: string;
+  marketingAllowed: number;
+  lastSyncedAt: number | null;
+  deletedAt: number | null;
+  createdAt: number;
+  updatedAt: number;
+  businessName: string;
+  note: string | null;
+  metadataModifiedTime: number | null;
+  dobYear: number | null;
+  dobMonth: number | null;
+  dobDay: number | null;
+}
+
+const statusAnalyzer = new ClientStatusAnalyzer();
 
 export async function loader({ request }: Route.LoaderArgs) {
   try {
@@ -7,6 +32,9 @@ export async function loader({ request }: Route.LoaderArgs) {
     const page = parseInt(url.searchParams.get('page') || '1');
     const limit = parseInt(url.searchParams.get('limit') || '50');
     const fetchAll = url.searchParams.get('all') === 'true';
+    // Customers, cards and contact details removed in Clover are hidden unless asked for
+    const includeDeleted = url.searchParams.get('includeDeleted') === 'true';
+    const activeOnly = (alias: string) => includeDeleted ? '' : `AND ${alias}.deletedAt IS NULL`;
     const offset = (page - 1) * limit;
 
     // Get total count
@@ -14,7 +42,7 @@ export async function loader({ request }: Route.LoaderArgs) {
       SELECT COUNT(*) as total
       FROM customers c
       LEFT JOIN metadata m ON c.id = m.customerId
-      WHERE m.businessName IS NOT NULL
+      WHERE m.businessName IS NOT NULL ${activeOnly('c')}
     `).get() as { total: number };
     
     const total = totalResult.total;
@@ -31,50 +59,116 @@ export async function loader({ request }: Route.LoaderArgs) {
         c.merchantCurrency,
         c.marketingAllowed,
         c.lastSyncedAt,
+        c.deletedAt,
         c.createdAt,
         c.updatedAt,
         m.businessName,
         m.note,
+        m.modifiedTime as metadataModifiedTime,
         m.dobYear,
         m.dobMonth,
         m.dobDay
       FROM customers c
       LEFT JOIN metadata m ON c.id = m.customerId
-      WHERE m.businessName IS NOT NULL
+      WHERE m.businessName IS NOT NULL ${activeOnly('c')}
       ORDER BY m.businessName, c.lastName, c.firstName
       ${fetchAll ? '' : 'LIMIT ? OFFSET ?'}
     `;
     
-    const customers = fetchAll 
+    const customers = (fetchAll 
       ? db.prepare(customersQuery).all()
-      : db.prepare(customersQuery).all(limit, offset);
+      : db.prepare(customersQuery).all(limit, offset)) as CustomerRow[];
+
+    // Merchant names for badges and report headers
+    const merchants = getMerchantProfiles();
+    const merchantsById = new Map(merchants.map(merchant => [merchant.id, merchant]));
+    const labelsById = new Map(merchants.map(merchant => [merchant.id, merchant.label]));
+    const getLabel = (merchantId: string, currency: string) => {
+      if (!labelsById.has(merchantId)) labelsById.set(merchantId, getMerchantLabel(merchantId, currency));
+      return labelsById.get(merchantId)!;
+    };
 
     // Get related data for these customers
     const customerIds = customers.map(c => c.id);
-    let cards = [];
-    let emails = [];
-    let phones = [];
+    let cards: Array<{
+      customerId: string;
+      id: string;
+      first6: string | null;
+      last4: string | null;
+      expirationDate: string | null;
+      cardType: string | null;
+      deletedAt: number | null;
+    }> = [];
+    let emails: Array<{ customerId: string; id: string; emailAddress: string; primaryEmail: number; deletedAt: number | null }> = [];
+    let phones: Array<{ customerId: string; id: string; phoneNumber: string; deletedAt: number | null }> = [];
+    let purchases: Array<{
+      customerId: string;
+      orderCount: number;
+      lastPurchaseTime: number | null;
+      lifetimeSpend: number;
+    }> = [];
+    let cardCharges: Array<{
+      customerId: string;
+      result: string;
+      declineReason: string | null;
+      amount: number | null;
+      cardLast4: string;
+      createdTime: number | null;
+    }> = [];
     
     if (customerIds.length > 0) {
       const placeholders = customerIds.map(() => '?').join(',');
       
       cards = db.prepare(`
-        SELECT customerId, id, first6, last4, expirationDate, cardType
+        SELECT customerId, id, first6, last4, expirationDate, cardType, deletedAt
         FROM cards 
-        WHERE customerId IN (${placeholders})
-      `).all(...customerIds);
+        WHERE customerId IN (${placeholders}) ${activeOnly('cards')}
+      `).all(...customerIds) as typeof cards;
       
       emails = db.prepare(`
-        SELECT customerId, id, emailAddress, primaryEmail
+        SELECT customerId, id, emailAddress, primaryEmail, deletedAt
         FROM emailAddresses 
-        WHERE customerId IN (${placeholders})
-      `).all(...customerIds);
+        WHERE customerId IN (${placeholders}) ${activeOnly('emailAddresses')}
+      `).all(...customerIds) as typeof emails;
       
       phones = db.prepare(`
-        SELECT customerId, id, phoneNumber
+        SELECT customerId, id, phoneNumber, deletedAt
         FROM phoneNumbers 
-        WHERE customerId IN (${placeholders})
-      `).all(...customerIds);
+        WHERE customerId IN (${placeholders}) ${activeOnly('phoneNumbers')}
+      `).all(...customerIds) as typeof phones;
+
+      // Purchase activity from synced orders; amounts are in cents
+      purchases = db.prepare(`
+        SELECT 
+          o.customerId,
+          COUNT(DISTINCT o.id) as orderCount,
+          MAX(CASE WHEN p.result = 'SUCCESS' THEN p.createdTime END) as lastPurchaseTime,
+          COALESCE(SUM(CASE WHEN p.result = 'SUCCESS' THEN p.amount END), 0) as lifetimeSpend
+        FROM orders o
+        LEFT JOIN payments p ON p.orderId = o.id
+        WHERE o.customerId IN (${placeholders})
+        GROUP BY o.customerId
+      `).all(...customerIds) as typeof purchases;
+
+      // Charges made on a card the customer has on file, oldest first
+      cardCharges = db.prepare(`
+        SELECT p.customerId, p.result, p.declineReason, p.amount, p.cardLast4, p.createdTime
+        FROM payments p
+        WHERE p.customerId IN (${placeholders})
+          AND p.result IN ('SUCCESS', 'FAIL')
+          AND p.cardLast4 IS NOT NULL
+          AND (
+            p.cardEntryType = 'VAULTED'
+            OR EXISTS (
+              SELECT 1 FROM cards c
+              WHERE c.customerId = p.customerId
+                AND c.last4 = p.cardLast4
+                AND (p.cardFirst6 IS NULL OR c.first6 = p.cardFirst6)
+                AND c.deletedAt IS NULL
+            )
+          )
+        ORDER BY p.createdTime
+      `).all(...customerIds) as typeof cardCharges;
     }
 
     // Group related data by customer
@@ -82,25 +176,31 @@ export async function loader({ request }: Route.LoaderArgs) {
       if (!acc[card.customerId]) acc[card.customerId] = [];
       acc[card.customerId].push(card);
       return acc;
-    }, {});
+    }, {} as Record<string, typeof cards>);
     
     const emailsByCustomer = emails.reduce((acc, email) => {
       if (!acc[email.customerId]) acc[email.customerId] = [];
       acc[email.customerId].push(email);
       return acc;
-    }, {});
+    }, {} as Record<string, typeof emails>);
     
     const phonesByCustomer = phones.reduce((acc, phone) => {
       if (!acc[phone.customerId]) acc[phone.customerId] = [];
       acc[phone.customerId].push(phone);
       return acc;
-    }, {});
+    }, {} as Record<string, typeof phones>);
+
+    const purchasesByCustomer = new Map(purchases.map(purchase => [purchase.customerId, purchase]));
+    // Later charges overwrite earlier ones, leaving the latest per customer
+    const latestChargeByCustomer = new Map(cardCharges.map(charge => [charge.customerId, charge]));
 
     // Build customer response with card analysis
     const customersWithAnalysis = customers.map(customer => {
       const customerCards = cardsByCustomer[customer.id] || [];
       const customerEmails = emailsByCustomer[customer.id] || [];
       const customerPhones = phonesByCustomer[customer.id] || [];
+      const customerPurchases = purchasesByCustomer.get(customer.id);
+      const latestCardCharge = latestChargeByCustomer.get(customer.id);
       
       // Card expiration analysis
       const now = new Date();
@@ -123,9 +223,31 @@ export async function loader({ request }: Route.LoaderArgs) {
         return { card, status, daysUntil: daysDiff };
       });
       
-      const primaryEmail = customerEmails.find(e => e.primaryEmail)?.emailAddress || 
-                          customerEmails[0]?.emailAddress;
-      const primaryPhone = customerPhones[0]?.phoneNumber;
+      // Flags and contact picks only look at what the customer still has in Clover
+      const activeCards = cardAnalysis.filter(c => !c.card.deletedAt);
+      const activeEmails = customerEmails.filter(e => !e.deletedAt);
+      const primaryEmail = activeEmails.find(e => e.primaryEmail)?.emailAddress || 
+                          activeEmails[0]?.emailAddress;
+      const primaryPhone = customerPhones.find(p => !p.deletedAt)?.phoneNumber;
+      const lastPurchaseTime = customerPurchases?.lastPurchaseTime || null;
+
+      // Status (payment failed, expired, inactive, ...) from cards, charges and real purchase activity
+      const clientStatus = statusAnalyzer.analyzeClientStatus(
+        {
+          id: customer.id,
+          customerSince: customer.customerSince ?? undefined,
+          cards: activeCards.map(({ card }) => ({
+            id: card.id,
+            first6: card.first6 ?? '',
+            last4: card.last4 ?? '',
+            expirationDate: card.expirationDate ?? '',
+            cardType: card.cardType ?? ''
+          })),
+          lastPurchaseTime,
+          latestCardCharge: latestCardCharge || null
+        },
+        activeCards.map(({ card, status }) => ({ card, expiration: { status } }))
+      );
       
       return {
         id: customer.id,
@@ -134,22 +256,33 @@ export async function loader({ request }: Route.LoaderArgs) {
         businessName: customer.businessName,
         merchantId: customer.merchantId,
         merchantCurrency: customer.merchantCurrency,
+        merchantName: merchantsById.get(customer.merchantId)?.name || null,
+        merchantLabel: getLabel(customer.merchantId, customer.merchantCurrency),
         customerSince: customer.customerSince,
         marketingAllowed: customer.marketingAllowed,
         lastSyncedAt: customer.lastSyncedAt,
+        deletedAt: customer.deletedAt,
         createdAt: customer.createdAt,
         updatedAt: customer.updatedAt,
         emailAddresses: customerEmails,
         phoneNumbers: customerPhones,
         cards: cardAnalysis,
-        hasExpired: cardAnalysis.some(c => c.status === 'expired'),
-        hasExpiringSoon: cardAnalysis.some(c => c.status === 'expiring-soon'),
-        totalCards: customerCards.length,
+        hasExpired: activeCards.some(c => c.status === 'expired'),
+        hasExpiringSoon: activeCards.some(c => c.status === 'expiring-soon'),
+        totalCards: activeCards.length,
         primaryEmail,
         primaryPhone,
+        lastPurchaseTime,
+        lifetimeSpend: customerPurchases?.lifetimeSpend || 0,
+        orderCount: customerPurchases?.orderCount || 0,
+        latestCardCharge: latestCardCharge || null,
+        // Kept as a flag for the list and print filters; the analyzer decides it
+        hasPaymentFailed: clientStatus.status === 'payment-failed',
+        clientStatus,
         metadata: {
           businessName: customer.businessName,
           note: customer.note,
+          modifiedTime: customer.metadataModifiedTime,
           dobYear: customer.dobYear,
           dobMonth: customer.dobMonth,
           dobDay: customer.dobDay,
@@ -159,6 +292,8 @@ export async function loader({ request }: Route.LoaderArgs) {
 
     return Response.json({
       customers: customersWithAnalysis,
+      merchants,
+      includeDeleted,
       pagination: {
         page,
         limit,
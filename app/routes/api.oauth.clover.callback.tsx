@@ -0,0 +1,26 @@
+import type { Route } from "./+types/api.oauth.clover.callback";
+import { redirect } from "react-router";
+import { completeAuthorization } from "~/lib/clover-oauth";
+import { getMerchantSettings } from "~/lib/merchant-settings";
+import { CloverApiError } from "~/lib/clover-errors";
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const params = new URL(request.url).searchParams;
+  const code = params.get('code');
+  const state = params.get('state');
+  const merchantId = params.get('merchant_id');
+
+  if (!code || !state || !merchantId) {
+    const reason = params.get('error') || 'Missing code, state or merchant_id';
+    return redirect(`/admin?oauthError=${encodeURIComponent(reason)}`);
+  }
+
+  try {
+    await completeAuthorization({ code, state, merchantId });
+    return redirect(`/admin?connected=${encodeURIComponent(getMerchantSettings(merchantId)?.label || merchantId)}`);
+  } catch (error) {
+    console.error('OAuth callback error:', error);
+    const message = error instanceof CloverApiError ? error.describe() : error instanceof Error ? error.message : 'Unknown error';
+    return redirect(`/admin?oauthError=${encodeURIComponent(message)}`);
+  }
+}
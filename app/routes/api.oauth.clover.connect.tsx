@@ -0,0 +1,20 @@
+import type { Route } from "./+types/api.oauth.clover.connect";
+import { redirect } from "react-router";
+import { createAuthorizationUrl, getOAuthSettings } from "~/lib/clover-oauth";
+import { getMerchantSettings } from "~/lib/merchant-settings";
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const merchantId = new URL(request.url).searchParams.get('merchantId');
+  if (!merchantId || !getMerchantSettings(merchantId)) {
+    return Response.json({ error: "merchantId must be a merchant from the merchants config" }, { status: 400 });
+  }
+
+  if (!getOAuthSettings()) {
+    return Response.json(
+      { error: "Clover OAuth is not configured", message: "Set CLOVER_APP_ID and CLOVER_APP_SECRET" },
+      { status: 500 }
+    );
+  }
+
+  return redirect(createAuthorizationUrl(merchantId));
+}
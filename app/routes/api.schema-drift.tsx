@@ -0,0 +1,43 @@
+import type { Route } from "./+types/api.schema-drift";
+import { clearSchemaDriftEvents, getSchemaDriftEvents } from "~/lib/schema-drift";
+
+export async function loader({ request }: Route.LoaderArgs) {
+  try {
+    const url = new URL(request.url);
+    const merchantId = url.searchParams.get('merchantId') || undefined;
+    const since = url.searchParams.get('since');
+
+    const events = getSchemaDriftEvents({
+      merchantId,
+      since: since ? Math.floor(new Date(since).getTime() / 1000) : undefined
+    });
+
+    return Response.json({
+      events,
+      total: events.length,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Schema drift error:', error);
+    return Response.json(
+      { error: 'Failed to get schema drift events', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const formData = await request.formData();
+  const action = formData.get('action');
+
+  if (action === 'clear') {
+    const cleared = clearSchemaDriftEvents();
+    return Response.json({
+      success: true,
+      message: `Cleared ${cleared} schema drift events`,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  return Response.json({ success: false, message: 'Invalid action' }, { status: 400 });
+}
@@ -1,6 +1,7 @@
 import type { Route } from "./+types/api.send-email";
-import puppeteer from 'puppeteer';
 import { emailService } from '~/lib/email-service';
+import { getAppConfig } from '~/lib/config';
+import { emailReport } from '~/lib/reports';
 
 export async function action({ request }: Route.ActionArgs) {
   try {
@@ -24,73 +25,15 @@ export async function action({ request }: Route.ActionArgs) {
       );
     }
 
-    // Launch puppeteer to generate PDF
-    const browser = await puppeteer.launch({
-      headless: 'new',
-      args: [
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-        '--disable-dev-shm-usage',
-        '--disable-gpu',
-        '--no-first-run'
-      ]
-    });
-
-    const page = await browser.newPage();
-
-    // Construct the print URL - use the same host as the request
-    const baseUrl = `${url.protocol}//${url.host}`;
-    const printParams = new URLSearchParams({
+    // Print page from SERVER_URL, else the same host as the request
+    const { customerCount, recipient } = await emailReport({
       filter,
       search,
-      sort
-    });
-    const printUrl = `${baseUrl}/customers/print?${printParams.toString()}`;
-
-    console.log(`[Email] Loading URL for PDF: ${printUrl}`);
-
-    // Navigate to the print page
-    await page.goto(printUrl, {
-      waitUntil: 'networkidle2',
-      timeout: 30000
-    });
-
-    // Wait for content to load
-    await page.waitForSelector('table tbody tr', { timeout: 15000 });
-
-    // Get customer count from the page
-    const customerCount = await page.evaluate(() => {
-      const rows = document.querySelectorAll('table tbody tr');
-      return rows.length;
+      sort,
+      baseUrl: getAppConfig().reports.baseUrl || `${url.protocol}//${url.host}`,
+      recipient: customRecipient
     });
 
-    // Generate PDF
-    const pdfBuffer = await page.pdf({
-      format: 'letter',
-      margin: {
-        top: '0.5in',
-        right: '0.5in',
-        bottom: '0.5in',
-        left: '0.5in'
-      },
-      printBackground: true,
-      preferCSSPageSize: true
-    });
-
-    await browser.close();
-
-    console.log(`[Email] Generated PDF: ${pdfBuffer.length} bytes, ${customerCount} customers`);
-
-    // Send email with PDF attachment
-    await emailService.sendPdfReport(
-      Buffer.from(pdfBuffer),
-      filter,
-      customerCount,
-      customRecipient
-    );
-
-    const recipient = customRecipient || emailService.getRecipient();
-    
     return new Response(
       JSON.stringify({ 
         success: true, 
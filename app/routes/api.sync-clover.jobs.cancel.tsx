@@ -0,0 +1,24 @@
+import type { Route } from "./+types/api.sync-clover.jobs.cancel";
+import { cancelSyncJob, getSyncJob } from "~/lib/sync-jobs";
+
+export async function action({ request, params }: Route.ActionArgs) {
+  if (request.method !== "POST") {
+    return Response.json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  const job = getSyncJob(params.id);
+  if (!job) {
+    return Response.json({ error: `Sync job ${params.id} not found` }, { status: 404 });
+  }
+  if (!cancelSyncJob(job.id)) {
+    return Response.json({ error: `Sync job ${job.id} already ${job.status}`, success: false, job }, { status: 409 });
+  }
+
+  // The job stops at its next request to Clover; the events stream reports when it has
+  return Response.json({
+    message: "Cancellation requested",
+    success: true,
+    job,
+    timestamp: new Date().toISOString()
+  }, { status: 202 });
+}
@@ -0,0 +1,56 @@
+import type { Route } from "./+types/api.sync-clover.jobs.events";
+import { getSyncJob, subscribeSyncJob, type SyncJob } from "~/lib/sync-jobs";
+
+// Comment lines keep proxies from closing an idle stream
+const KEEPALIVE_INTERVAL_MS = 15_000;
+
+/**
+ * Server-Sent Events stream of a sync job: `progress` events while it runs,
+ * then one `done` event with the final job and the stream closes
+ */
+export async function loader({ request, params }: Route.LoaderArgs) {
+  const job = getSyncJob(params.id);
+  if (!job) {
+    return Response.json({ error: `Sync job ${params.id} not found` }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const send = (current: SyncJob) => {
+        const event = current.status === 'running' ? 'progress' : 'done';
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(current)}\n\n`));
+        if (event === 'done') cleanup();
+      };
+
+      const keepalive = setInterval(() => controller.enqueue(encoder.encode(`: keepalive\n\n`)), KEEPALIVE_INTERVAL_MS);
+      const unsubscribe = subscribeSyncJob(job.id, send);
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(keepalive);
+        unsubscribe?.();
+        request.signal.removeEventListener('abort', cleanup);
+        controller.close();
+      };
+      request.signal.addEventListener('abort', cleanup);
+
+      send(job);
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no"
+    }
+  });
+}
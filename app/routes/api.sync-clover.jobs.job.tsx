@@ -0,0 +1,14 @@
+import type { Route } from "./+types/api.sync-clover.jobs.job";
+import { getSyncJob } from "~/lib/sync-jobs";
+
+export async function loader({ params }: Route.LoaderArgs) {
+  const job = getSyncJob(params.id);
+  if (!job) {
+    return Response.json({ error: `Sync job ${params.id} not found` }, { status: 404 });
+  }
+
+  return Response.json({
+    job,
+    timestamp: new Date().toISOString()
+  });
+}
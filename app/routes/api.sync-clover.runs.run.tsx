@@ -0,0 +1,22 @@
+import type { Route } from "./+types/api.sync-clover.runs.run";
+import { getSyncRun } from "~/lib/sync-history";
+
+export async function loader({ params }: Route.LoaderArgs) {
+  try {
+    const run = getSyncRun(parseInt(params.id));
+    if (!run) {
+      return Response.json({ error: `Sync run ${params.id} not found` }, { status: 404 });
+    }
+
+    return Response.json({
+      run,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Sync run error:', error);
+    return Response.json(
+      { error: 'Failed to get sync run', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import type { Route } from "./+types/api.sync-clover.runs";
+import { listSyncRuns } from "~/lib/sync-history";
+
+export async function loader({ request }: Route.LoaderArgs) {
+  try {
+    const limit = Math.min(parseInt(new URL(request.url).searchParams.get('limit') || '50') || 50, 500);
+
+    return Response.json({
+      runs: listSyncRuns(limit),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Sync history error:', error);
+    return Response.json(
+      { error: 'Failed to get sync history', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,8 @@
 import type { Route } from "./+types/api.sync-clover";
-import { CloverSyncService } from "~/lib/clover-sync";
+import { CloverSyncService, type SyncMode } from "~/lib/clover-sync";
+import { getRateLimiterMetrics } from "~/lib/rate-limiter";
+import { getActiveSyncJob, startSyncJob } from "~/lib/sync-jobs";
+import { SyncLockedError } from "~/lib/sync-lock";
 
 export async function loader({}: Route.LoaderArgs) {
   try {
@@ -9,6 +12,8 @@ export async function loader({}: Route.LoaderArgs) {
     return Response.json({
       message: "Sync status",
       stats,
+      activeJob: getActiveSyncJob() ?? null,
+      rateLimiter: getRateLimiterMetrics(),
       timestamp: new Date().toISOString()
     });
   } catch (error) {
@@ -26,20 +31,33 @@ export async function action({ request }: Route.ActionArgs) {
   }
 
   try {
-    console.log('[API] Starting Clover sync...');
-    const syncService = new CloverSyncService();
-    const result = await syncService.syncAllCustomers();
-    
-    console.log('[API] Clover sync completed:', result);
-    
+    // ?mode=full|incremental|auto (default auto)
+    const requestedMode = new URL(request.url).searchParams.get('mode') || 'auto';
+    if (!['auto', 'full', 'incremental'].includes(requestedMode)) {
+      return Response.json({ error: `Invalid sync mode: ${requestedMode}` }, { status: 400 });
+    }
+
+    // The sync runs in the background; follow it with the status or events URL
+    console.log(`[API] Starting Clover sync job (${requestedMode})...`);
+    const job = startSyncJob({ mode: requestedMode as SyncMode, trigger: 'api' });
+
     return Response.json({
-      message: result.success ? "Sync completed successfully" : "Sync completed with errors",
-      success: result.success,
-      stats: result.stats,
-      errors: result.errors,
+      message: "Sync started",
+      success: true,
+      jobId: job.id,
+      job,
+      statusUrl: `/api/sync-clover/jobs/${job.id}`,
+      eventsUrl: `/api/sync-clover/jobs/${job.id}/events`,
       timestamp: new Date().toISOString()
-    });
+    }, { status: 202 });
   } catch (error) {
+    // Another sync (this server's job, the CLI or a schedule) holds the lock
+    if (error instanceof SyncLockedError) {
+      return Response.json(
+        { error: 'Sync already running', message: error.message, success: false, runningSync: error.holder, job: getActiveSyncJob() ?? null },
+        { status: 409 }
+      );
+    }
     console.error('Sync error:', error);
     return Response.json(
       { 
@@ -0,0 +1,67 @@
+import type { Route } from "./+types/api.webhooks.clover";
+import {
+  CloverWebhookPayloadSchema,
+  CloverWebhookVerificationSchema,
+  getWebhookQueueStats,
+  processWebhookEvents,
+  queueWebhookEvents,
+  verifyWebhookAuth,
+} from "~/lib/clover-webhooks";
+
+export async function loader({}: Route.LoaderArgs) {
+  return Response.json({
+    queue: getWebhookQueueStats(),
+    timestamp: new Date().toISOString()
+  });
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  if (request.method !== "POST") {
+    return Response.json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  // Handshake: Clover sends a one-time code to paste into the developer dashboard
+  const verification = CloverWebhookVerificationSchema.safeParse(body);
+  if (verification.success) {
+    console.log(`[Webhooks] Clover verification code received: ${verification.data.verificationCode}`);
+    return Response.json({ received: true });
+  }
+
+  try {
+    // Inside the try: the auth code is decrypted with the master key, which can fail
+    if (!verifyWebhookAuth(request.headers.get('X-Clover-Auth'))) {
+      console.warn('[Webhooks] Rejected webhook with missing or invalid X-Clover-Auth header');
+      return Response.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const payload = CloverWebhookPayloadSchema.safeParse(body);
+    if (!payload.success) {
+      return Response.json(
+        { error: "Invalid webhook payload", issues: payload.error.issues.map(issue => issue.message) },
+        { status: 400 }
+      );
+    }
+
+    const queued = queueWebhookEvents(payload.data);
+
+    // Answer Clover right away; customers are refreshed in the background
+    processWebhookEvents().catch(error => {
+      console.error('[Webhooks] Processing failed:', error);
+    });
+
+    return Response.json({ received: true, queued });
+  } catch (error) {
+    console.error('Webhook error:', error);
+    return Response.json(
+      { error: 'Failed to handle webhook', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,7 @@ import type { Route } from "./+types/customers.print";
 import { useLoaderData } from "react-router";
 import { useEffect } from "react";
 import { useLanguage, LanguageProvider } from "~/lib/language-context";
+import { getMerchantColor, getMerchantDisplayLabel, groupByMerchantLabel } from "~/lib/merchant-colors";
 
 export function meta() {
   return [
@@ -72,6 +73,17 @@ function getCardStatus(customer: any, t: (key: string) => string) {
   const expiredCards = cards.filter((c: any) => c.status === 'expired');
   const expiringSoonCards = cards.filter((c: any) => c.status === 'expiring-soon');
   
+  if (customer.hasPaymentFailed && customer.latestCardCharge) {
+    const charge = customer.latestCardCharge;
+    const failedCard = cards.find((c: any) => c.card?.last4 === charge.cardLast4);
+    const cardNumber = failedCard?.card?.first6 ? 
+      formatCardNumber(failedCard.card.first6, charge.cardLast4) : `****${charge.cardLast4}`;
+    return { 
+      status: `${t('PAYMENT FAILED')}: ${charge.declineReason}`, 
+      cardNumber, 
+      expiry: '' 
+    };
+  }
   if (expiredCards.length > 0) {
     // Get the most recently expired card
     const mostRecent = expiredCards.reduce((recent, card) => 
@@ -159,8 +171,10 @@ function CustomersPrintContent() {
           return false;
         });
       }
-      return isNewCustomer || hasExpiringSoon || hasRecentlyExpired;
+      return c.hasPaymentFailed || isNewCustomer || hasExpiringSoon || hasRecentlyExpired;
     });
+  } else if (data.filter === 'payment-failed') {
+    customers = customers.filter((c: any) => c.hasPaymentFailed);
   } else if (data.filter === 'expired') {
     customers = customers.filter((c: any) => c.hasExpired);
   } else if (data.filter === 'expiring') {
@@ -201,6 +215,10 @@ function CustomersPrintContent() {
     });
   }
   
+  // One section per merchant when the report covers several
+  const merchantGroups = groupByMerchantLabel<any>(customers);
+  const merchantLabels = merchantGroups.map(group => group.label);
+  
   // Auto-trigger print dialog after page loads
   useEffect(() => {
     setTimeout(() => {
@@ -368,6 +386,11 @@ function CustomersPrintContent() {
           <strong>{t('total')}:</strong> {customers.length} {t('customers')} | 
           <strong>{t('printed')}:</strong> {data.printDate} à {data.printTime}
         </div>
+        {data.merchants?.length > 0 && (
+          <div className="info-line">
+            <strong>{t('merchants')}:</strong> {data.merchants.map((merchant: any) => merchant.label).join(' • ')}
+          </div>
+        )}
         {data.searchTerm && (
           <div className="info-line">
             <strong>{t('search')}:</strong> "{data.searchTerm}"
@@ -385,8 +408,16 @@ function CustomersPrintContent() {
             <th style={{ width: '20%' }}>{t('card-status')}</th>
           </tr>
         </thead>
-        <tbody>
-          {customers.map((customer: any, index: number) => {
+        {merchantGroups.map(group => (
+        <tbody key={group.label}>
+          {merchantGroups.length > 1 && (
+            <tr>
+              <th colSpan={4} style={{ textAlign: 'left', backgroundColor: getMerchantColor(merchantLabels, group.label).hex, color: 'white' }}>
+                {group.label} ({group.customers.length})
+              </th>
+            </tr>
+          )}
+          {group.customers.map((customer: any, index: number) => {
             const name = `${customer.firstName || ''} ${customer.lastName || ''}`.trim() || t('no-name');
             const cardStatus = getCardStatus(customer, t);
             const statusClass = cardStatus.status.includes(t('EXPIRED')) ? 'status-expired' : 
@@ -409,14 +440,14 @@ function CustomersPrintContent() {
                     <span style={{ 
                       fontSize: '9pt',
                       fontWeight: 'bold',
-                      backgroundColor: customer.merchantCurrency === 'USD' ? '#1e40af' : '#059669',
+                      backgroundColor: getMerchantColor(merchantLabels, group.label).hex,
                       color: 'white',
                       padding: '2px 6px',
                       borderRadius: '3px',
                       marginLeft: '8px',
                       flexShrink: 0
                     }}>
-                      {customer.merchantCurrency}
+                      {getMerchantDisplayLabel(customer)}
                     </span>
                   </div>
                 </td>
@@ -439,6 +470,7 @@ function CustomersPrintContent() {
             );
           })}
         </tbody>
+        ))}
       </table>
       
       {/* Notes Section */}
@@ -1,7 +1,8 @@
 import type { Route } from "./+types/customers";
-import { useLoaderData, Link } from "react-router";
+import { useLoaderData, useFetcher, Link } from "react-router";
 import { useState, useMemo } from "react";
 import { useLanguage, LanguageSelector } from "~/lib/language-context";
+import { getMerchantColor, getMerchantDisplayLabel, groupByMerchantLabel } from "~/lib/merchant-colors";
 
 export function meta() {
   return [
@@ -36,7 +37,12 @@ function getCardBrand(first6: string) {
   return { brand: 'Card', logo: 'C', color: 'text-gray-500' };
 }
 
-function CompactCustomerCard({ customer }: { customer: any }) {
+// No cards and no purchase in over a year, per the status /api/customers computes
+function isInactiveCustomer(customer: any): boolean {
+  return customer.clientStatus?.status === 'inactive-old' && customer.clientStatus.priority === 'none';
+}
+
+function CompactCustomerCard({ customer, merchantBadge }: { customer: any; merchantBadge: string }) {
   const { t } = useLanguage();
   const name = `${customer.firstName || ''} ${customer.lastName || ''}`.trim() || t('no-name');
   const businessName = customer.businessName;
@@ -66,7 +72,11 @@ function CompactCustomerCard({ customer }: { customer: any }) {
   let statusColor = 'bg-green-500';
   let urgency = 0;
   
-  if (expiredCards.length > 0) {
+  if (customer.hasPaymentFailed) {
+    status = 'payment-failed';
+    statusColor = 'bg-red-700';
+    urgency = 4;
+  } else if (expiredCards.length > 0) {
     status = 'expired';
     statusColor = 'bg-red-500';
     urgency = 3;
@@ -74,6 +84,9 @@ function CompactCustomerCard({ customer }: { customer: any }) {
     status = 'expiring';
     statusColor = 'bg-orange-500';
     urgency = 2;
+  } else if (cards.length === 0 && isInactiveCustomer(customer)) {
+    status = 'inactive';
+    statusColor = 'bg-gray-400';
   } else if (cards.length === 0) {
     status = 'no-cards';
     statusColor = 'bg-purple-500';
@@ -93,14 +106,33 @@ function CompactCustomerCard({ customer }: { customer: any }) {
   
   const customerAge = formatDaysAgo(customer.customerSince);
   const lastSync = formatDaysAgo(customer.lastSyncedAt ? customer.lastSyncedAt * 1000 : null);
+  const lastPurchase = formatDaysAgo(customer.lastPurchaseTime);
+  
+  // Note write-back: show the appended note right away, before Clover confirms
+  const noteFetcher = useFetcher<{ success: boolean; error?: string; metadata?: { note?: string } }>();
+  const pendingNote = noteFetcher.formData?.get('note') as string | undefined;
+  const savedNote = noteFetcher.data?.success ? noteFetcher.data.metadata?.note : undefined;
+  const note: string | undefined = pendingNote
+    ? [customer.metadata?.note, pendingNote].filter(Boolean).join('\n')
+    : savedNote ?? customer.metadata?.note;
+  const lastNoteLine = note?.trim().split('\n').pop();
+  const noteError = noteFetcher.state === 'idle' && noteFetcher.data && !noteFetcher.data.success
+    ? t(noteFetcher.data.error === 'conflict' ? 'note-conflict' : 'note-failed')
+    : null;
+  const contactedNote = `${new Date().toISOString().slice(0, 10)} - ${t('contacted-expired-card')}`;
+  const lifetimeSpend = new Intl.NumberFormat(undefined, {
+    style: 'currency',
+    currency: customer.merchantCurrency || 'USD'
+  }).format((customer.lifetimeSpend || 0) / 100);
   
   return (
     <div className={`
       bg-white rounded-lg border-2 p-3 hover:shadow-lg transition-all cursor-pointer
+      ${status === 'payment-failed' ? 'border-red-400 hover:border-red-600' : ''}
       ${status === 'expired' ? 'border-red-200 hover:border-red-400' : ''}
       ${status === 'expiring' ? 'border-orange-200 hover:border-orange-400' : ''}
       ${status === 'no-cards' ? 'border-purple-200 hover:border-purple-400' : ''}
-      ${status === 'active' ? 'border-gray-200 hover:border-gray-400' : ''}
+      ${status === 'active' || status === 'inactive' ? 'border-gray-200 hover:border-gray-400' : ''}
     `}>
       {/* Status indicator and basic info */}
       <div className="flex items-start justify-between mb-2">
@@ -118,10 +150,11 @@ function CompactCustomerCard({ customer }: { customer: any }) {
             <p className="text-xs text-gray-600 truncate mt-0.5">{name}</p>
           )}
         </div>
-        <span className={`text-xs px-2 py-0.5 rounded ${
-          customer.merchantCurrency === 'USD' ? 'bg-blue-100 text-blue-700' : 'bg-green-100 text-green-700'
-        }`}>
-          {customer.merchantCurrency}
+        <span
+          title={customer.merchantLabel}
+          className={`text-xs px-2 py-0.5 rounded max-w-[50%] truncate flex-shrink-0 ${merchantBadge}`}
+        >
+          {getMerchantDisplayLabel(customer)}
         </span>
       </div>
       
@@ -135,6 +168,17 @@ function CompactCustomerCard({ customer }: { customer: any }) {
         )}
       </div>
       
+      {/* Declined charge on a stored card */}
+      {customer.hasPaymentFailed && customer.latestCardCharge && (
+        <div className="bg-red-50 border border-red-200 rounded px-2 py-1 mb-2 text-xs text-red-700">
+          <div className="font-medium">❌ {t('payment-failed')} ****{customer.latestCardCharge.cardLast4}</div>
+          <div className="truncate">
+            {customer.latestCardCharge.declineReason}
+            {customer.latestCardCharge.createdTime && ` • ${formatDaysAgo(customer.latestCardCharge.createdTime)}`}
+          </div>
+        </div>
+      )}
+      
       {/* Card status - most important info */}
       {(expiredCards.length > 0 || expiringSoonCards.length > 0) ? (
         <div className="bg-gray-900 rounded p-2 mb-2">
@@ -167,6 +211,13 @@ function CompactCustomerCard({ customer }: { customer: any }) {
           <span className="text-green-600 font-bold">✓</span>
           <span>{cards.length} {cards.length === 1 ? t('active-card') : t('active-cards')}</span>
         </div>
+      ) : status === 'inactive' ? (
+        <div className="bg-gray-50 rounded px-2 py-1 mb-2">
+          <div className="flex items-center gap-2 text-xs text-gray-600 font-medium">
+            <span>💤</span>
+            <span>{t('inactive-customer')}</span>
+          </div>
+        </div>
       ) : (
         <div className="bg-purple-50 rounded px-2 py-1 mb-2">
           <div className="flex items-center gap-2 text-xs text-purple-700 font-medium">
@@ -176,6 +227,43 @@ function CompactCustomerCard({ customer }: { customer: any }) {
         </div>
       )}
       
+      {/* Purchase activity */}
+      <div className="flex items-center justify-between text-xs text-gray-600 mb-2">
+        <span>{t('last-purchase')}: {lastPurchase || t('no-purchases')}</span>
+        {customer.orderCount > 0 && (
+          <span title={t('lifetime-spend')}>{lifetimeSpend}</span>
+        )}
+      </div>
+      
+      {/* Latest note and contact action */}
+      {lastNoteLine && (
+        <div className="text-xs text-gray-500 italic truncate mb-2" title={note}>📝 {lastNoteLine}</div>
+      )}
+      {noteError && (
+        <div className="text-xs text-red-600 mb-2">{noteError}</div>
+      )}
+      {(status === 'expired' || status === 'expiring' || status === 'payment-failed') && (
+        <noteFetcher.Form
+          method="post"
+          action={`/api/customers/${customer.id}/note`}
+          onClick={(e) => e.stopPropagation()}
+          className="mb-2"
+        >
+          <input type="hidden" name="note" value={contactedNote} />
+          <input type="hidden" name="append" value="true" />
+          {customer.metadata?.modifiedTime && (
+            <input type="hidden" name="expectedModifiedTime" value={customer.metadata.modifiedTime} />
+          )}
+          <button
+            type="submit"
+            disabled={noteFetcher.state !== 'idle'}
+            className="w-full text-xs px-2 py-1 rounded bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+          >
+            📞 {t('mark-contacted')}
+          </button>
+        </noteFetcher.Form>
+      )}
+      
       {/* Footer - metadata */}
       <div className="flex items-center justify-between text-xs text-gray-500 pt-2 border-t">
         <span>Client {customerAge || t('new')}</span>
@@ -185,7 +273,7 @@ function CompactCustomerCard({ customer }: { customer: any }) {
   );
 }
 
-type FilterType = 'all' | 'action-required' | 'expired' | 'expiring' | 'no-cards' | 'active';
+type FilterType = 'all' | 'action-required' | 'payment-failed' | 'expired' | 'expiring' | 'no-cards' | 'active';
 
 export default function Customers() {
   const { t } = useLanguage();
@@ -203,6 +291,7 @@ export default function Customers() {
     const threeMonthsAgo = now - (90 * 24 * 60 * 60 * 1000);
     
     return {
+      paymentFailed: customers.filter((c: any) => c.hasPaymentFailed),
       expired: customers.filter(c => c.hasExpired),
       expiring: customers.filter(c => c.hasExpiringSoon && !c.hasExpired),
       noCards: customers.filter(c => c.totalCards === 0),
@@ -235,7 +324,7 @@ export default function Customers() {
         }
         
         // Customer needs attention if any condition is met
-        return isNewCustomer || hasExpiringSoon || hasRecentlyExpired;
+        return c.hasPaymentFailed || isNewCustomer || hasExpiringSoon || hasRecentlyExpired;
       })
     };
   }, [initialData.customers]);
@@ -249,6 +338,9 @@ export default function Customers() {
       case 'action-required':
         filtered = categorizedCustomers.actionRequired;
         break;
+      case 'payment-failed':
+        filtered = categorizedCustomers.paymentFailed;
+        break;
       case 'expired':
         filtered = categorizedCustomers.expired;
         break;
@@ -284,11 +376,12 @@ export default function Customers() {
     switch (sortBy) {
       case 'urgency':
         sorted.sort((a, b) => {
-          // Priority: expired > expiring > no cards > active
+          // Priority: failed payment > expired > expiring > no cards > active
           const getUrgency = (c: any) => {
+            if (c.hasPaymentFailed) return 5;
             if (c.hasExpired) return 4;
             if (c.hasExpiringSoon) return 3;
-            if (c.totalCards === 0) return 2;
+            if (c.totalCards === 0 && !isInactiveCustomer(c)) return 2;
             return 1;
           };
           return getUrgency(b) - getUrgency(a);
@@ -309,9 +402,17 @@ export default function Customers() {
     return sorted;
   }, [initialData.customers, filter, searchTerm, sortBy, categorizedCustomers]);
   
+  // One section per merchant, colors stable whatever the filter
+  const merchantLabels = useMemo(
+    () => groupByMerchantLabel(initialData.customers).map(group => group.label),
+    [initialData.customers]
+  );
+  const merchantGroups = useMemo(() => groupByMerchantLabel(displayCustomers), [displayCustomers]);
+  
   const stats = {
     total: initialData.customers.length,
     actionRequired: categorizedCustomers.actionRequired.length,
+    paymentFailed: categorizedCustomers.paymentFailed.length,
     expired: categorizedCustomers.expired.length,
     expiring: categorizedCustomers.expiring.length,
     noCards: categorizedCustomers.noCards.length,
@@ -396,6 +497,17 @@ export default function Customers() {
               🚨 {t('action-required')} ({stats.actionRequired})
             </button>
             
+            <button
+              onClick={() => setFilter('payment-failed')}
+              className={`px-3 py-1.5 rounded-full text-sm font-medium whitespace-nowrap transition-colors ${
+                filter === 'payment-failed' 
+                  ? 'bg-red-700 text-white' 
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {t('payment-failed')} ({stats.paymentFailed})
+            </button>
+            
             <button
               onClick={() => setFilter('expired')}
               className={`px-3 py-1.5 rounded-full text-sm font-medium whitespace-nowrap transition-colors ${
@@ -457,9 +569,24 @@ export default function Customers() {
       {/* Customer Grid */}
       <div className="max-w-7xl mx-auto px-4 py-6">
         {displayCustomers.length > 0 ? (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
-            {displayCustomers.map((customer: any) => (
-              <CompactCustomerCard key={customer.id} customer={customer} />
+          <div className="space-y-8">
+            {merchantGroups.map(group => (
+              <section key={group.label}>
+                {merchantLabels.length > 1 && (
+                  <h2 className="text-lg font-semibold text-gray-900 mb-3">
+                    {group.label} <span className="text-sm font-normal text-gray-500">({group.customers.length})</span>
+                  </h2>
+                )}
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+                  {group.customers.map((customer: any) => (
+                    <CompactCustomerCard
+                      key={customer.id}
+                      customer={customer}
+                      merchantBadge={getMerchantColor(merchantLabels, group.label).badge}
+                    />
+                  ))}
+                </div>
+              </section>
             ))}
           </div>
         ) : (
@@ -1,7 +1,9 @@
 import type { Route } from "./+types/dashboard";
 import { useLoaderData, Link } from "react-router";
 import { ExpirationMonitorService } from "~/lib/expiration-monitor";
-import { validateEnvironmentVariables } from "~/lib/config";
+import { formatCustomerForNotification } from "~/lib/card-expiration-analyzer";
+import { validateEnvironmentVariables } from "~/lib/merchant-settings";
+import { getMerchantColor, getMerchantDisplayLabel, groupByMerchantLabel } from "~/lib/merchant-colors";
 
 export function meta({}: Route.MetaArgs) {
   return [
@@ -41,15 +43,15 @@ function StatusBadge({ status, count }: { status: string; count: number }) {
   );
 }
 
-function CustomerCard({ customer, type }: { customer: any; type: 'expired' | 'expiring-soon' | 'expiring-later' }) {
-  const formatted = new ExpirationMonitorService().formatCustomerForNotification(customer);
+function CustomerCard({ customer, type, merchantLabels }: { customer: any; type: 'expired' | 'expiring-soon' | 'expiring-later'; merchantLabels: string[] }) {
+  const formatted = formatCustomerForNotification(customer);
   
   return (
     <div className="bg-white border rounded-lg p-4 shadow-sm">
       <div className="flex items-center justify-between mb-2">
         <h3 className="font-medium text-gray-900">{formatted.name}</h3>
-        <span className={`text-xs px-2 py-1 rounded ${customer.merchantCurrency === 'USD' ? 'bg-blue-100 text-blue-800' : 'bg-green-100 text-green-800'}`}>
-          {customer.merchantCurrency}
+        <span className={`text-xs px-2 py-1 rounded ${getMerchantColor(merchantLabels, getMerchantDisplayLabel(customer)).badge}`}>
+          {getMerchantDisplayLabel(customer)}
         </span>
       </div>
       
@@ -82,6 +84,27 @@ function CustomerCard({ customer, type }: { customer: any; type: 'expired' | 'ex
   );
 }
 
+function CustomerGrid({ customers, type, merchantLabels }: { customers: any[]; type: 'expired' | 'expiring-soon' | 'expiring-later'; merchantLabels: string[] }) {
+  const groups = groupByMerchantLabel(customers);
+
+  return (
+    <div className="space-y-4">
+      {groups.map(group => (
+        <div key={group.label}>
+          {merchantLabels.length > 1 && (
+            <h3 className="text-sm font-medium text-gray-500 mb-2">{group.label}</h3>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {group.customers.map((customer) => (
+              <CustomerCard key={`${customer.merchantId}-${customer.id}`} customer={customer} type={type} merchantLabels={merchantLabels} />
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 export default function Dashboard() {
   const { result, error } = useLoaderData<typeof loader>();
 
@@ -93,10 +116,10 @@ export default function Dashboard() {
             <h1 className="text-lg font-medium text-red-800 mb-2">Configuration Error</h1>
             <p className="text-red-700">{error}</p>
             <div className="mt-4 text-sm text-red-600">
-              <p>Please ensure the following environment variables are set:</p>
+              <p>Please ensure the following are configured:</p>
               <ul className="list-disc list-inside mt-2 space-y-1">
-                <li>CLOVER_USD_MERCHANT_ID & CLOVER_USD_API_TOKEN</li>
-                <li>CLOVER_CAD_MERCHANT_ID & CLOVER_CAD_API_TOKEN</li>
+                <li>merchants.config.json (or CLOVER_MERCHANTS_FILE) listing each merchant</li>
+                <li>An API token variable for each merchant (apiTokenEnv), or an OAuth connection</li>
                 <li>CLOVER_ENV (sandbox or production)</li>
               </ul>
             </div>
@@ -124,6 +147,11 @@ export default function Dashboard() {
   }
 
   const { summary, customers, merchantErrors } = result;
+  const merchantLabels = groupByMerchantLabel([
+    ...customers.expired,
+    ...customers.expiringSoon,
+    ...customers.expiringLater,
+  ]).map(group => group.label);
 
   return (
     <div className="min-h-screen bg-gray-50 p-8">
@@ -153,14 +181,13 @@ export default function Dashboard() {
                   </div>
                   <div className="ml-3">
                     <h3 className="text-sm font-medium text-yellow-800">
-                      {merchantError.currency} Merchant Connection Issue
+                      {merchantError.label} Merchant Connection Issue
                       {merchantError.status && ` (${merchantError.status})`}
                     </h3>
                     <div className="mt-2 text-sm text-yellow-700">
-                      {merchantError.status === 401 ? (
-                        <p>Authentication failed. Please check your API token and merchant ID for the {merchantError.currency} account.</p>
-                      ) : (
-                        <p>{merchantError.error}</p>
+                      <p>{merchantError.description}</p>
+                      {merchantError.kind === 'auth' && (
+                        <p className="mt-1">Please check your API token and merchant ID for the {merchantError.label} account.</p>
                       )}
                     </div>
                   </div>
@@ -200,11 +227,7 @@ export default function Dashboard() {
                 <h2 className="text-xl font-semibold text-gray-900">Expired Cards</h2>
                 <StatusBadge status="expired" count={customers.expired.length} />
               </div>
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {customers.expired.map((customer) => (
-                  <CustomerCard key={`${customer.merchantCurrency}-${customer.id}`} customer={customer} type="expired" />
-                ))}
-              </div>
+              <CustomerGrid customers={customers.expired} type="expired" merchantLabels={merchantLabels} />
             </div>
           )}
 
@@ -215,11 +238,7 @@ export default function Dashboard() {
                 <h2 className="text-xl font-semibold text-gray-900">Expiring Soon (≤30 days)</h2>
                 <StatusBadge status="expiring-soon" count={customers.expiringSoon.length} />
               </div>
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {customers.expiringSoon.map((customer) => (
-                  <CustomerCard key={`${customer.merchantCurrency}-${customer.id}`} customer={customer} type="expiring-soon" />
-                ))}
-              </div>
+              <CustomerGrid customers={customers.expiringSoon} type="expiring-soon" merchantLabels={merchantLabels} />
             </div>
           )}
 
@@ -230,11 +249,7 @@ export default function Dashboard() {
                 <h2 className="text-xl font-semibold text-gray-900">Expiring Later (31-90 days)</h2>
                 <StatusBadge status="expiring-later" count={customers.expiringLater.length} />
               </div>
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {customers.expiringLater.map((customer) => (
-                  <CustomerCard key={`${customer.merchantCurrency}-${customer.id}`} customer={customer} type="expiring-later" />
-                ))}
-              </div>
+              <CustomerGrid customers={customers.expiringLater} type="expiring-later" merchantLabels={merchantLabels} />
             </div>
           )}
         </div>
@@ -1,6 +1,47 @@
-// This will be called when the server starts
+import { ConfigError } from '~/lib/config';
+import { validateEnvironmentVariables } from '~/lib/merchant-settings';
+import { hasMasterKey } from '~/lib/secrets';
+import { migratePlaintextSecrets } from '~/lib/secret-columns';
+import { startScheduler } from '~/lib/scheduler';
+
+// Kept on globalThis so dev-server module reloads don't initialize twice
+const globalRegistry = globalThis as typeof globalThis & { __serverInitialized?: boolean };
+
+// Called from entry.server.tsx when the server build is loaded
 export function initializeServer() {
+  if (globalRegistry.__serverInitialized) return;
+  globalRegistry.__serverInitialized = true;
   console.log('[Server] Initializing...');
-  // Background sync disabled during SQLite migration
-  console.log('[Server] Initialization complete (background sync disabled)');
-}
\ No newline at end of file
+
+  try {
+    validateEnvironmentVariables();
+  } catch (error) {
+    // Pages still render and show the problem; the issues are listed once here
+    if (error instanceof ConfigError) {
+      console.error(`[Server] ${error.message}`);
+    } else {
+      throw error;
+    }
+  }
+
+  // Encrypt secrets stored before a master key was configured
+  try {
+    if (hasMasterKey()) {
+      const migrated = Object.entries(migratePlaintextSecrets()).filter(([, count]) => count > 0);
+      if (migrated.length > 0) {
+        console.log('[Server] Encrypted plaintext secrets:', migrated.map(([column, count]) => `${column}=${count}`).join(', '));
+      }
+    }
+  } catch (error) {
+    console.error('[Server] Could not encrypt stored secrets:', error instanceof Error ? error.message : error);
+  }
+
+  // Scheduled syncs and reports from the schedules table
+  try {
+    startScheduler();
+  } catch (error) {
+    console.error('[Server] Could not start the scheduler:', error instanceof Error ? error.message : error);
+  }
+
+  console.log('[Server] Initialization complete');
+}
@@ -0,0 +1,73 @@
+#!/usr/bin/env tsx
+
+/**
+ * Customer Note Re-sync Check
+ *
+ * Saves a note on a customer the way the customer page does, runs a full sync
+ * and checks the local metadata row still has that note and its modifiedTime.
+ * Usage: npm run mock:clover, then npm run check:note-resync [-- customerId]
+ *
+ * It writes to Clover, so it only runs against merchants with a baseUrl
+ * (the mock server or another stand-in), never the live API.
+ */
+
+import dotenv from 'dotenv';
+import path from 'path';
+
+// Load environment variables
+dotenv.config({ path: path.resolve('.env') });
+
+async function main() {
+  const { CloverSyncService } = await import('../app/lib/clover-sync');
+  const { loadMerchantSettings } = await import('../app/lib/merchant-settings');
+  const { db } = await import('../app/lib/db');
+
+  const localMerchants = loadMerchantSettings().filter(merchant => merchant.enabled && merchant.baseUrl);
+  if (localMerchants.length === 0) {
+    console.error('❌ No enabled merchant has a baseUrl; point one at the mock server first');
+    process.exit(1);
+  }
+
+  const syncService = new CloverSyncService();
+  let customerId = process.argv[2];
+  if (!customerId) {
+    console.log('🔄 Syncing to pick a customer...');
+    await syncService.syncAllCustomers({ mode: 'full', trigger: 'cli' });
+    const placeholders = localMerchants.map(() => '?').join(', ');
+    const row = db.prepare(`
+      SELECT id FROM customers WHERE merchantId IN (${placeholders}) AND deletedAt IS NULL ORDER BY id LIMIT 1
+    `).get(...localMerchants.map(merchant => merchant.id)) as { id: string } | undefined;
+    if (!row) {
+      console.error('❌ No customers synced from a local merchant');
+      process.exit(1);
+    }
+    customerId = row.id;
+  }
+
+  const customer = db.prepare(`SELECT merchantId FROM customers WHERE id = ?`).get(customerId) as { merchantId: string } | undefined;
+  if (!customer || !localMerchants.some(merchant => merchant.id === customer.merchantId)) {
+    console.error(`❌ Customer ${customerId} does not belong to a merchant with a baseUrl`);
+    process.exit(1);
+  }
+
+  const note = `Re-sync check ${new Date().toISOString()}`;
+  const saved = await syncService.saveCustomerNote(customerId, note);
+  console.log(`📝 Saved note on ${customerId} (modifiedTime ${saved.modifiedTime})`);
+
+  const result = await syncService.syncAllCustomers({ mode: 'full', trigger: 'cli' });
+  console.log(`🔄 Re-synced ${result.stats.totalCustomers} customers (run #${result.runId})`);
+
+  const stored = db.prepare(`SELECT note, modifiedTime FROM metadata WHERE customerId = ?`).get(customerId) as
+    { note: string | null; modifiedTime: number | null } | undefined;
+
+  if (stored?.note !== note || stored.modifiedTime !== saved.modifiedTime) {
+    console.error(`❌ Note lost on re-sync: expected "${note}" at ${saved.modifiedTime}, found ${JSON.stringify(stored ?? null)}`);
+    process.exit(1);
+  }
+  console.log('✅ Note and modifiedTime survived the re-sync');
+}
+
+main().catch((error) => {
+  console.error('💥 Unexpected error:', error);
+  process.exit(1);
+});
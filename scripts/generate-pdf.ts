@@ -12,6 +12,7 @@
  *   - expired: Customers with expired credit cards
  *   - expiring: Customers with cards expiring soon
  *   - action-required: Customers requiring attention (default)
+ *   - payment-failed: Customers whose last card-on-file charge was declined
  *   - no-cards: Customers without payment methods
  * 
  * Email Integration:
@@ -24,6 +25,7 @@ import puppeteer from 'puppeteer';
 import path from 'path';
 import fs from 'fs';
 import dotenv from 'dotenv';
+import { getAppConfig } from '../app/lib/config';
 
 // Load environment variables
 dotenv.config({ path: path.resolve('.env') });
@@ -40,7 +42,7 @@ async function getEmailService() {
 }
 
 interface PDFOptions {
-  filter: 'expired' | 'expiring' | 'action-required' | 'no-cards';
+  filter: 'expired' | 'expiring' | 'action-required' | 'no-cards' | 'payment-failed';
   outputDir: string;
   serverUrl: string;
 }
@@ -125,10 +127,10 @@ async function main() {
   const args = process.argv.slice(2);
   const filter = (args[0] || 'action-required') as PDFOptions['filter'];
   const outputDir = args[1] || './reports';
-  const serverUrl = process.env.SERVER_URL || 'http://localhost:5173';
+  const serverUrl = getAppConfig().reports.baseUrl || 'http://localhost:5173';
   
   // Validate filter
-  const validFilters = ['expired', 'expiring', 'action-required', 'no-cards'];
+  const validFilters = ['expired', 'expiring', 'action-required', 'no-cards', 'payment-failed'];
   if (!validFilters.includes(filter)) {
     console.error(`❌ Invalid filter: ${filter}`);
     console.error(`   Valid filters: ${validFilters.join(', ')}`);
@@ -154,7 +156,7 @@ async function main() {
       console.log(`📁 Report saved to: ${result.outputPath}`);
       
       // Check if email should be sent
-      const emailEnabled = process.env.EMAIL_ENABLED === 'true';
+      const emailEnabled = getAppConfig().email.enabled;
       if (emailEnabled) {
         console.log('');
         console.log('📧 Attempting to send email...');
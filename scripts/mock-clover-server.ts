@@ -0,0 +1,427 @@
+#!/usr/bin/env tsx
+
+/**
+ * Mock Clover API Server
+ *
+ * Local stand-in for the Clover v3 endpoints used by CloverClient, seeded with
+ * generated customers, cards (spread across expiration dates) and orders.
+ * Usage: npm run mock:clover
+ *
+ * Point a merchant at it: "baseUrl": "http://localhost:4010" in merchants.config.json
+ * Merchant IDs served: MOCK_CLOVER_MERCHANTS, else every merchant in the merchants config.
+ *
+ * Endpoints:
+ *   - GET  /v3/merchants/{mId}                        (expand=address,properties)
+ *   - GET  /v3/merchants/{mId}/customers              (expand, filter, limit, offset)
+ *   - GET  /v3/merchants/{mId}/customers/{cId}        (expand)
+ *   - POST /v3/merchants/{mId}/customers/{cId}        (metadata updates)
+ *   - GET  /v3/merchants/{mId}/orders                 (expand, filter, limit, offset)
+ *   - GET/POST /_mock/faults                          (read/change fault injection at runtime)
+ *
+ * Options (environment):
+ *   MOCK_CLOVER_PORT=4010         MOCK_CLOVER_CUSTOMERS=200    MOCK_CLOVER_SEED=42
+ *   MOCK_CLOVER_RPS=16            requests per second per token before 429 (0 = unlimited)
+ *   MOCK_CLOVER_ERROR_RATE=0      fraction of API requests answered with MOCK_CLOVER_ERROR_STATUS
+ *   MOCK_CLOVER_ERROR_STATUS=500  MOCK_CLOVER_LATENCY_MS=0     MOCK_CLOVER_TOKEN (require this bearer token)
+ */
+
+import dotenv from 'dotenv';
+import path from 'path';
+import http from 'http';
+import { loadConfiguredMerchants } from '../app/lib/config';
+
+// Load environment variables
+dotenv.config({ path: path.resolve('.env') });
+
+type Json = Record<string, any>;
+
+interface Faults {
+  rateLimitRps: number;
+  errorRate: number;
+  errorStatus: number;
+  latencyMs: number;
+}
+
+const PORT = parseInt(process.env.MOCK_CLOVER_PORT || '4010', 10);
+const CUSTOMER_COUNT = parseInt(process.env.MOCK_CLOVER_CUSTOMERS || '200', 10);
+const SEED = parseInt(process.env.MOCK_CLOVER_SEED || '42', 10);
+const MAX_LIMIT = 1000;
+
+const faults: Faults = {
+  rateLimitRps: parseInt(process.env.MOCK_CLOVER_RPS || '16', 10),
+  errorRate: parseFloat(process.env.MOCK_CLOVER_ERROR_RATE || '0'),
+  errorStatus: parseInt(process.env.MOCK_CLOVER_ERROR_STATUS || '500', 10),
+  latencyMs: parseInt(process.env.MOCK_CLOVER_LATENCY_MS || '0', 10),
+};
+
+// ---------------------------------------------------------------------------
+// Seeded data
+// ---------------------------------------------------------------------------
+
+// mulberry32: small deterministic PRNG so every run serves the same data
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const random = createRandom(SEED);
+const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+const between = (min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+const cloverId = () => Array.from({ length: 13 }, () => pick([...'ABCDEFGHJKMNPQRSTVWXYZ0123456789'])).join('');
+
+const FIRST_NAMES = ['Marie', 'Jean', 'Sophie', 'Luc', 'Emma', 'Noah', 'Chloé', 'Liam', 'Olivia', 'Félix', 'Ava', 'William'];
+const LAST_NAMES = ['Tremblay', 'Gagnon', 'Roy', 'Côté', 'Smith', 'Brown', 'Martin', 'Lee', 'Bouchard', 'Wilson', 'Garcia', 'Leblanc'];
+const CARD_TYPES: Array<[string, string]> = [['VISA', '411111'], ['MC', '555555'], ['AMEX', '378282'], ['DISCOVER', '601111']];
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Expiration dates (MMYY) spread so every bucket of the analyzers has customers:
+ * expired, this month, next few months, and well in the future
+ */
+function generateExpirationDate(): string {
+  const now = new Date();
+  const monthOffset = pick([-14, -6, -2, -1, 0, 0, 1, 1, 2, 3, 6, 12, 24, 36]);
+  const date = new Date(now.getFullYear(), now.getMonth() + monthOffset, 1);
+  return `${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getFullYear() % 100).padStart(2, '0')}`;
+}
+
+function generateCustomer(): Json {
+  const firstName = pick(FIRST_NAMES);
+  const lastName = pick(LAST_NAMES);
+  const createdTime = Date.now() - between(30, 900) * DAY;
+  const modifiedTime = Math.min(Date.now(), createdTime + between(0, 900) * DAY);
+  const id = cloverId();
+
+  const cards = Array.from({ length: pick([0, 1, 1, 1, 2]) }, () => {
+    const [cardType, first6] = pick(CARD_TYPES);
+    return {
+      id: cloverId(),
+      first6,
+      last4: String(between(1000, 9999)),
+      firstName,
+      lastName,
+      expirationDate: generateExpirationDate(),
+      cardType,
+      token: `mock_${cloverId().toLowerCase()}`,
+      tokenType: 'MULTIPAY',
+      modifiedTime,
+      customer: { id },
+    };
+  });
+
+  return {
+    id,
+    firstName,
+    lastName,
+    marketingAllowed: random() < 0.5,
+    customerSince: createdTime,
+    createdTime,
+    modifiedTime,
+    emailAddresses: [{ id: cloverId(), emailAddress: `${firstName}.${lastName}@example.com`.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '') }],
+    phoneNumbers: [{ id: cloverId(), phoneNumber: `514-555-${String(between(0, 9999)).padStart(4, '0')}` }],
+    addresses: [{ id: cloverId(), address1: `${between(1, 9999)} Rue Principale`, city: 'Montréal', state: 'QC', zip: 'H2X 1Y4', country: 'CA' }],
+    metadata: { note: random() < 0.2 ? 'Prefers email reminders' : '', modifiedTime },
+    cards,
+  };
+}
+
+function generateOrders(customer: Json, currency: string): Json[] {
+  const orders: Json[] = [];
+  for (let i = between(0, 4); i > 0; i--) {
+    const createdTime = Date.now() - between(0, 400) * DAY;
+    const total = between(1500, 25000);
+    const card = customer.cards[0];
+    // A few customers get a declined charge on their stored card
+    const result = card && random() < 0.08 ? 'FAIL' : 'SUCCESS';
+    const orderId = cloverId();
+
+    orders.push({
+      id: orderId,
+      currency,
+      total,
+      state: 'locked',
+      paymentState: result === 'SUCCESS' ? 'PAID' : 'OPEN',
+      createdTime,
+      modifiedTime: createdTime,
+      customers: [{ id: customer.id }],
+      payments: [{
+        id: cloverId(),
+        order: { id: orderId },
+        amount: total,
+        result,
+        createdTime,
+        modifiedTime: createdTime,
+        tender: { id: cloverId(), label: card ? 'Credit Card' : 'Cash' },
+        cardTransaction: card ? {
+          first6: card.first6,
+          last4: card.last4,
+          cardType: card.cardType,
+          entryType: 'VAULTED',
+          state: result === 'SUCCESS' ? 'CLOSED' : 'DECLINED',
+        } : undefined,
+      }],
+    });
+  }
+  return orders;
+}
+
+interface MerchantData {
+  profile: Json;
+  customers: Json[];
+  orders: Json[];
+}
+
+function seedMerchants(): Map<string, MerchantData> {
+  const fromConfig = loadConfiguredMerchants().map(({ id, label, currency }) => ({ id, label, currency }));
+  const configured = process.env.MOCK_CLOVER_MERCHANTS
+    ? process.env.MOCK_CLOVER_MERCHANTS.split(',').map((id, index) => ({ id: id.trim(), label: `Merchant ${index + 1}`, currency: index === 0 ? 'USD' : 'CAD' }))
+    : fromConfig.length > 0
+      ? fromConfig
+      : [
+          { id: 'MOCKUSDMERCH1', label: 'USD', currency: 'USD' },
+          { id: 'MOCKCADMERCH1', label: 'CAD', currency: 'CAD' },
+        ];
+
+  const merchants = new Map<string, MerchantData>();
+  for (const { id, label, currency } of configured) {
+    const customers = Array.from({ length: CUSTOMER_COUNT }, generateCustomer);
+    merchants.set(id, {
+      profile: {
+        id,
+        name: `Mock ${label} Studio`,
+        phoneNumber: '514-555-0100',
+        address: { address1: '100 Rue Mock', city: 'Montréal', state: 'QC', zip: 'H2X 1Y4', country: 'CA' },
+        properties: { timezone: 'America/Toronto', defaultCurrency: currency },
+      },
+      customers,
+      orders: customers.flatMap(customer => generateOrders(customer, currency)),
+    });
+  }
+  return merchants;
+}
+
+const merchants = seedMerchants();
+
+// ---------------------------------------------------------------------------
+// Query handling: expand, filter, limit/offset
+// ---------------------------------------------------------------------------
+
+/**
+ * Shape a stored record the way Clover does: nested lists only when expanded
+ */
+function applyExpand(record: Json, expand: Set<string>): Json {
+  const result: Json = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (Array.isArray(value)) {
+      if (!expand.has(key)) continue;
+      const nested = new Set([...expand].filter(field => field.startsWith(`${key}.`)).map(field => field.slice(key.length + 1)));
+      result[key] = { elements: value.map(item => (item && typeof item === 'object' ? applyNestedExpand(item, nested) : item)) };
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+// Nested objects (payments.tender, payments.cardTransaction) only appear when expanded
+function applyNestedExpand(record: Json, expand: Set<string>): Json {
+  const result: Json = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (value === undefined) continue;
+    if (value && typeof value === 'object' && !Array.isArray(value) && key !== 'order') {
+      result[key] = expand.has(key) ? value : { id: value.id };
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+const FILTER_PATTERN = /^([a-zA-Z.]+)\s*(>=|<=|!=|=|>|<)\s*(.*)$/;
+
+/**
+ * Values at a dotted path; lists along the way are searched element by element
+ */
+function resolvePath(record: unknown, fieldPath: string[]): unknown[] {
+  if (fieldPath.length === 0) return [record];
+  if (Array.isArray(record)) return record.flatMap(item => resolvePath(item, fieldPath));
+  if (!record || typeof record !== 'object') return [];
+
+  const [head, ...rest] = fieldPath;
+  const obj = record as Json;
+  // Clover filters use the singular (customer.id) for list fields (customers)
+  const value = obj[head] ?? obj[`${head}s`];
+  return resolvePath(value, rest);
+}
+
+function compare(actual: unknown, op: string, expected: string): boolean {
+  const numeric = typeof actual === 'number' && expected !== '' && !Number.isNaN(Number(expected));
+  const left = numeric ? (actual as number) : String(actual);
+  const right = numeric ? Number(expected) : expected;
+
+  switch (op) {
+    case '=': return left === right;
+    case '!=': return left !== right;
+    case '>=': return left >= right;
+    case '<=': return left <= right;
+    case '>': return left > right;
+    case '<': return left < right;
+    default: return false;
+  }
+}
+
+function applyFilters(records: Json[], filters: string[]): Json[] | { error: string } {
+  const parsed: Array<{ fieldPath: string[]; op: string; value: string }> = [];
+  for (const filter of filters) {
+    const match = filter.match(FILTER_PATTERN);
+    if (!match) return { error: `Invalid filter: ${filter}` };
+    parsed.push({ fieldPath: match[1].split('.'), op: match[2], value: match[3] });
+  }
+
+  return records.filter(record =>
+    parsed.every(({ fieldPath, op, value }) =>
+      resolvePath(record, fieldPath).some(actual => compare(actual, op, value))
+    )
+  );
+}
+
+function listResponse(records: Json[], params: URLSearchParams): { status: number; body: Json } {
+  const filtered = applyFilters(records, params.getAll('filter'));
+  if (!Array.isArray(filtered)) return { status: 400, body: { message: filtered.error } };
+
+  const limit = Math.min(MAX_LIMIT, parseInt(params.get('limit') || '100', 10));
+  const offset = parseInt(params.get('offset') || '0', 10);
+  const expand = parseExpand(params);
+  return {
+    status: 200,
+    body: { elements: filtered.slice(offset, offset + limit).map(record => applyExpand(record, expand)) },
+  };
+}
+
+function parseExpand(params: URLSearchParams): Set<string> {
+  return new Set(params.getAll('expand').flatMap(value => value.split(',')).map(field => field.trim()).filter(Boolean));
+}
+
+// ---------------------------------------------------------------------------
+// Faults: 429 throttling, injected errors, latency
+// ---------------------------------------------------------------------------
+
+const requestTimes = new Map<string, number[]>();
+
+function isThrottled(token: string): boolean {
+  if (faults.rateLimitRps <= 0) return false;
+  const now = Date.now();
+  const recent = (requestTimes.get(token) || []).filter(time => now - time < 1000);
+  recent.push(now);
+  requestTimes.set(token, recent);
+  return recent.length > faults.rateLimitRps;
+}
+
+// ---------------------------------------------------------------------------
+// HTTP
+// ---------------------------------------------------------------------------
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+async function readJson(req: http.IncomingMessage): Promise<Json> {
+  let raw = '';
+  for await (const chunk of req) raw += chunk;
+  try {
+    return JSON.parse(raw || '{}');
+  } catch {
+    return {};
+  }
+}
+
+async function handle(req: http.IncomingMessage, res: http.ServerResponse) {
+  const url = new URL(req.url || '/', `http://localhost:${PORT}`);
+  const method = req.method || 'GET';
+
+  if (url.pathname === '/_mock/faults') {
+    if (method === 'POST') {
+      const changes = await readJson(req);
+      for (const key of Object.keys(faults) as Array<keyof Faults>) {
+        if (typeof changes[key] === 'number') faults[key] = changes[key];
+      }
+      console.log('⚙️  Faults updated:', faults);
+    }
+    return sendJson(res, 200, faults);
+  }
+
+  const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+  if (!token || (process.env.MOCK_CLOVER_TOKEN && token !== process.env.MOCK_CLOVER_TOKEN)) {
+    return sendJson(res, 401, { message: '401 Unauthorized' });
+  }
+
+  if (faults.latencyMs > 0) {
+    await new Promise(resolve => setTimeout(resolve, faults.latencyMs));
+  }
+
+  if (isThrottled(token)) {
+    console.log(`⏳ 429 ${method} ${url.pathname}`);
+    return sendJson(res, 429, { message: 'Too Many Requests' }, { 'Retry-After': '1' });
+  }
+
+  if (faults.errorRate > 0 && random() < faults.errorRate) {
+    console.log(`💥 Injected ${faults.errorStatus} for ${method} ${url.pathname}`);
+    return sendJson(res, faults.errorStatus, { message: 'Injected error' });
+  }
+
+  const match = url.pathname.match(/^\/v3\/merchants\/([^/]+)(?:\/(customers|orders)(?:\/([^/]+))?)?\/?$/);
+  const merchant = match ? merchants.get(match[1]) : undefined;
+  if (!match || !merchant) {
+    return sendJson(res, 404, { message: 'Not found' });
+  }
+
+  const [, , resource, recordId] = match;
+  const expand = parseExpand(url.searchParams);
+
+  if (!resource && method === 'GET') {
+    return sendJson(res, 200, applyNestedExpand(merchant.profile, expand));
+  }
+
+  if (resource && !recordId && method === 'GET') {
+    const { status, body } = listResponse(resource === 'customers' ? merchant.customers : merchant.orders, url.searchParams);
+    return sendJson(res, status, body);
+  }
+
+  if (resource === 'customers' && recordId) {
+    const customer = merchant.customers.find(candidate => candidate.id === recordId);
+    if (!customer) return sendJson(res, 404, { message: `Customer ${recordId} not found` });
+
+    if (method === 'POST') {
+      const body = await readJson(req);
+      const now = Date.now();
+      if (body.metadata) customer.metadata = { ...customer.metadata, ...body.metadata, modifiedTime: now };
+      customer.modifiedTime = now;
+      console.log(`✏️  Updated customer ${recordId}`);
+    }
+    return sendJson(res, 200, applyExpand(customer, expand));
+  }
+
+  sendJson(res, 405, { message: 'Method not allowed' });
+}
+
+const server = http.createServer((req, res) => {
+  handle(req, res).catch(error => {
+    console.error('💥 Mock server error:', error);
+    sendJson(res, 500, { message: 'Mock server error' });
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`🧪 Mock Clover API listening on http://localhost:${PORT}`);
+  for (const [id, data] of merchants) {
+    console.log(`   ${data.profile.properties.defaultCurrency} ${id}: ${data.customers.length} customers, ${data.orders.length} orders`);
+  }
+  console.log(`   Faults: ${JSON.stringify(faults)}`);
+});
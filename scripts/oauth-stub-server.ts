@@ -0,0 +1,148 @@
+#!/usr/bin/env tsx
+
+/**
+ * Clover OAuth Stub Server
+ *
+ * Minimal stand-in for Clover's authorization server, to exercise the
+ * connect → callback → refresh flow locally without a Clover app.
+ * Usage: npm run oauth:stub
+ *
+ * Point the app at it (for the USD merchant, say):
+ *   CLOVER_APP_ID=stub-app  CLOVER_APP_SECRET=stub-secret
+ *   CLOVER_OAUTH_AUTHORIZE_URL=http://localhost:4020/oauth/v2/authorize
+ *   CLOVER_USD_BASE_URL=http://localhost:4020
+ *
+ * Endpoints:
+ *   - GET  /oauth/v2/authorize: approves immediately, redirects to redirect_uri
+ *   - POST /oauth/v2/token:     exchanges a code for an access/refresh token pair
+ *   - POST /oauth/v2/refresh:   rotates the pair
+ *   - GET  /v3/...:             401 unless the bearer token is current, else a stub merchant or empty list
+ *
+ * Access tokens live OAUTH_STUB_ACCESS_TTL seconds (default 60) so refresh is easy to trigger.
+ */
+
+import dotenv from 'dotenv';
+import path from 'path';
+import http from 'http';
+import { randomBytes } from 'crypto';
+
+// Load environment variables
+dotenv.config({ path: path.resolve('.env') });
+
+const PORT = parseInt(process.env.OAUTH_STUB_PORT || '4020', 10);
+const ACCESS_TTL = parseInt(process.env.OAUTH_STUB_ACCESS_TTL || '60', 10);
+const REFRESH_TTL = 365 * 24 * 60 * 60;
+const APP_ID = process.env.CLOVER_APP_ID || 'stub-app';
+const APP_SECRET = process.env.CLOVER_APP_SECRET || 'stub-secret';
+
+const codes = new Map<string, string>();                                  // code → merchantId
+const accessTokens = new Map<string, { merchantId: string; expiresAt: number }>();
+const refreshTokens = new Map<string, { merchantId: string; expiresAt: number }>();
+
+const now = () => Math.floor(Date.now() / 1000);
+const token = (prefix: string) => `${prefix}-${randomBytes(12).toString('hex')}`;
+
+function issueTokens(merchantId: string) {
+  const accessToken = token('stub-access');
+  const refreshToken = token('stub-refresh');
+  accessTokens.set(accessToken, { merchantId, expiresAt: now() + ACCESS_TTL });
+  refreshTokens.set(refreshToken, { merchantId, expiresAt: now() + REFRESH_TTL });
+  return {
+    access_token: accessToken,
+    access_token_expiration: now() + ACCESS_TTL,
+    refresh_token: refreshToken,
+    refresh_token_expiration: now() + REFRESH_TTL,
+  };
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function readJson(req: http.IncomingMessage): Promise<Record<string, string>> {
+  let raw = '';
+  for await (const chunk of req) raw += chunk;
+  try {
+    return JSON.parse(raw || '{}');
+  } catch {
+    return {};
+  }
+}
+
+async function handle(req: http.IncomingMessage, res: http.ServerResponse) {
+  const url = new URL(req.url || '/', `http://localhost:${PORT}`);
+
+  if (req.method === 'GET' && url.pathname === '/oauth/v2/authorize') {
+    const redirectUri = url.searchParams.get('redirect_uri');
+    if (url.searchParams.get('client_id') !== APP_ID || !redirectUri) {
+      return sendJson(res, 400, { message: 'Unknown client_id or missing redirect_uri' });
+    }
+
+    const merchantId = url.searchParams.get('merchant_id') || process.env.CLOVER_USD_MERCHANT_ID || 'STUBMERCHANT1';
+    const code = token('stub-code');
+    codes.set(code, merchantId);
+
+    const callback = new URL(redirectUri);
+    callback.searchParams.set('code', code);
+    callback.searchParams.set('merchant_id', merchantId);
+    callback.searchParams.set('client_id', APP_ID);
+    const state = url.searchParams.get('state');
+    if (state) callback.searchParams.set('state', state);
+
+    console.log(`🔑 Authorized ${merchantId}, redirecting to ${callback.origin}${callback.pathname}`);
+    res.writeHead(302, { Location: callback.toString() });
+    return res.end();
+  }
+
+  if (req.method === 'POST' && url.pathname === '/oauth/v2/token') {
+    const body = await readJson(req);
+    const merchantId = codes.get(body.code);
+    if (body.client_id !== APP_ID || body.client_secret !== APP_SECRET || !merchantId) {
+      return sendJson(res, 401, { message: 'Invalid client credentials or code' });
+    }
+    codes.delete(body.code);
+    console.log(`🎟️  Issued tokens for ${merchantId}`);
+    return sendJson(res, 200, issueTokens(merchantId));
+  }
+
+  if (req.method === 'POST' && url.pathname === '/oauth/v2/refresh') {
+    const body = await readJson(req);
+    const stored = refreshTokens.get(body.refresh_token);
+    if (body.client_id !== APP_ID || !stored || stored.expiresAt < now()) {
+      return sendJson(res, 401, { message: 'Invalid or expired refresh token' });
+    }
+    // Refresh tokens are single use, like Clover's
+    refreshTokens.delete(body.refresh_token);
+    console.log(`🔄 Refreshed tokens for ${stored.merchantId}`);
+    return sendJson(res, 200, issueTokens(stored.merchantId));
+  }
+
+  if (url.pathname.startsWith('/v3/')) {
+    const bearer = (req.headers.authorization || '').replace(/^Bearer /, '');
+    const access = accessTokens.get(bearer);
+    if (!access || access.expiresAt < now()) {
+      console.log(`🚫 ${req.method} ${url.pathname} rejected (expired or unknown token)`);
+      return sendJson(res, 401, { message: '401 Unauthorized' });
+    }
+
+    const merchantMatch = url.pathname.match(/^\/v3\/merchants\/([^/]+)$/);
+    if (merchantMatch) {
+      return sendJson(res, 200, { id: merchantMatch[1], name: 'Stub Merchant' });
+    }
+    return sendJson(res, 200, { elements: [] });
+  }
+
+  sendJson(res, 404, { message: 'Not found' });
+}
+
+const server = http.createServer((req, res) => {
+  handle(req, res).catch(error => {
+    console.error('💥 Stub error:', error);
+    sendJson(res, 500, { message: 'Stub server error' });
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`🧪 Clover OAuth stub listening on http://localhost:${PORT} (client_id ${APP_ID}, access TTL ${ACCESS_TTL}s)`);
+});
@@ -0,0 +1,98 @@
+#!/usr/bin/env tsx
+
+/**
+ * Clover Webhook Replay Tool
+ *
+ * Feeds recorded Clover webhook payloads into the app for local testing.
+ * Usage: npm run webhooks:replay [--direct] [file-or-directory ...]
+ *
+ * Modes:
+ *   - default: POSTs each payload to $SERVER_URL/api/webhooks/clover with the
+ *     X-Clover-Auth header from CLOVER_WEBHOOK_AUTH_CODE
+ *   - --direct: queues and processes the events in-process, no server needed
+ *
+ * Without file arguments, every payload in scripts/fixtures/webhooks is replayed.
+ */
+
+import dotenv from 'dotenv';
+import path from 'path';
+import fs from 'fs';
+
+// Load environment variables
+dotenv.config({ path: path.resolve('.env') });
+
+const DEFAULT_FIXTURE_DIR = path.resolve('scripts/fixtures/webhooks');
+
+function collectPayloadFiles(inputs: string[]): string[] {
+  const files: string[] = [];
+  for (const input of inputs.length > 0 ? inputs : [DEFAULT_FIXTURE_DIR]) {
+    const resolved = path.resolve(input);
+    if (fs.statSync(resolved).isDirectory()) {
+      fs.readdirSync(resolved)
+        .filter(name => name.endsWith('.json'))
+        .sort()
+        .forEach(name => files.push(path.join(resolved, name)));
+    } else {
+      files.push(resolved);
+    }
+  }
+  return files;
+}
+
+async function replayOverHttp(file: string, payload: unknown) {
+  const serverUrl = process.env.SERVER_URL || 'http://localhost:5173';
+  const response = await fetch(`${serverUrl}/api/webhooks/clover`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Clover-Auth': process.env.CLOVER_WEBHOOK_AUTH_CODE || '',
+    },
+    body: JSON.stringify(payload),
+  });
+  const body = await response.text();
+  console.log(`${response.ok ? '✅' : '❌'} ${path.basename(file)} → ${response.status} ${body}`);
+}
+
+async function replayDirect(file: string, payload: unknown) {
+  const { CloverWebhookPayloadSchema, queueWebhookEvents } = await import('../app/lib/clover-webhooks');
+  const parsed = CloverWebhookPayloadSchema.safeParse(payload);
+  if (!parsed.success) {
+    console.log(`⏭️  ${path.basename(file)}: not an event payload, skipped`);
+    return;
+  }
+  const queued = queueWebhookEvents(parsed.data);
+  console.log(`✅ ${path.basename(file)}: queued ${queued} events`);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const direct = args.includes('--direct');
+  const files = collectPayloadFiles(args.filter(arg => arg !== '--direct'));
+
+  if (files.length === 0) {
+    console.log('No webhook payloads found.');
+    return;
+  }
+
+  console.log(`🔁 Replaying ${files.length} webhook payload(s) ${direct ? 'in-process' : 'over HTTP'}...\n`);
+
+  for (const file of files) {
+    const payload = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    if (direct) {
+      await replayDirect(file, payload);
+    } else {
+      await replayOverHttp(file, payload);
+    }
+  }
+
+  if (direct) {
+    const { processWebhookEvents } = await import('../app/lib/clover-webhooks');
+    const result = await processWebhookEvents();
+    console.log(`\n📊 Refreshed ${result.processed}, removed ${result.deleted}, ignored ${result.ignored}, failed ${result.failed}`);
+  }
+}
+
+main().catch(error => {
+  console.error('💥 Replay failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,192 @@
+#!/usr/bin/env tsx
+
+/**
+ * Secrets Maintenance CLI Tool
+ *
+ * Manages the master key that encrypts secrets in SQLite (OAuth tokens,
+ * merchant API tokens, card tokens) and, optionally, in .env.
+ * Usage: npm run secrets -- <command>  (or npm run secrets:migrate / secrets:rotate)
+ *
+ * Commands:
+ *   - generate-key: print a new random master key
+ *   - encrypt:      encrypt a value read from stdin, to paste into .env
+ *   - migrate:      encrypt plaintext secrets in SQLite and in .env
+ *                   (EMAIL_CLIENT_SECRET, CLOVER_APP_SECRET, CLOVER_WEBHOOK_AUTH_CODE,
+ *                   merchant API token variables)
+ *   - rotate:       generate a new master key and re-encrypt everything with it;
+ *                   the new key is written to SECRETS_MASTER_KEY_FILE or to
+ *                   SECRETS_MASTER_KEY in .env (otherwise printed before
+ *                   the database is re-encrypted); refuses to run while
+ *                   both are set
+ *
+ * Restart the server after rotating unless the key comes from a key file.
+ */
+
+import dotenv from 'dotenv';
+import path from 'path';
+import fs from 'fs';
+
+// Load environment variables quietly (also for the app config): generate-key and encrypt output is meant to be copied
+process.env.DOTENV_CONFIG_QUIET = 'true';
+dotenv.config({ path: path.resolve('.env') });
+
+const ENV_FILE = path.resolve('.env');
+
+// .env variables holding secrets besides the merchant API token variables
+const ENV_SECRETS = ['EMAIL_CLIENT_SECRET', 'CLOVER_APP_SECRET', 'CLOVER_WEBHOOK_AUTH_CODE'];
+
+/**
+ * Rewrite `KEY=value` lines of .env through `transform` (null keeps the line)
+ */
+function rewriteEnvFile(
+  names: Set<string>,
+  transform: (value: string) => string | null
+): { content: string; changed: string[] } {
+  const changed: string[] = [];
+  if (!fs.existsSync(ENV_FILE)) return { content: '', changed };
+
+  const lines = fs.readFileSync(ENV_FILE, 'utf-8').split('\n').map(line => {
+    const match = line.match(/^\s*([A-Z0-9_]+)\s*=\s*(.*?)\s*$/);
+    if (!match || !names.has(match[1])) return line;
+
+    const value = match[2].replace(/^(['"])(.*)\1$/, '$2');
+    if (!value) return line;
+
+    const next = transform(value);
+    if (next === null) return line;
+    changed.push(match[1]);
+    return `${match[1]}=${next}`;
+  });
+
+  return { content: lines.join('\n'), changed };
+}
+
+// Write next to the target first so a crash never leaves a half-written file
+function writeFileAtomic(file: string, content: string) {
+  fs.writeFileSync(`${file}.tmp`, content, { mode: 0o600 });
+  fs.renameSync(`${file}.tmp`, file);
+}
+
+async function getSecretEnvNames(): Promise<Set<string>> {
+  const { loadMerchantSettings } = await import('../app/lib/merchant-settings');
+  const merchantTokens = loadMerchantSettings().flatMap(merchant => (merchant.apiTokenEnv ? [merchant.apiTokenEnv] : []));
+  return new Set([...ENV_SECRETS, ...merchantTokens]);
+}
+
+async function migrate() {
+  const { encryptSecret, isEncryptedSecret, hasMasterKey } = await import('../app/lib/secrets');
+  const { migratePlaintextSecrets } = await import('../app/lib/secret-columns');
+
+  if (!hasMasterKey()) {
+    throw new Error('Set SECRETS_MASTER_KEY or SECRETS_MASTER_KEY_FILE first (npm run secrets -- generate-key)');
+  }
+
+  const counts = migratePlaintextSecrets();
+  console.log('🔐 SQLite:');
+  for (const [column, count] of Object.entries(counts)) {
+    console.log(`   ${column}: ${count} encrypted`);
+  }
+
+  const env = rewriteEnvFile(await getSecretEnvNames(), value => (isEncryptedSecret(value) ? null : encryptSecret(value)));
+  if (env.changed.length > 0) {
+    writeFileAtomic(ENV_FILE, env.content);
+  }
+  console.log(`🔐 .env: ${env.changed.length > 0 ? env.changed.join(', ') : 'nothing to encrypt'}`);
+}
+
+async function rotate() {
+  const { decryptSecret, encryptSecret, generateMasterKey, isEncryptedSecret, parseMasterKey, readMasterKey } = await import('../app/lib/secrets');
+  const { reencryptSecrets } = await import('../app/lib/secret-columns');
+  const { getAppConfig } = await import('../app/lib/config');
+
+  const oldKey = readMasterKey();
+  if (!oldKey) {
+    throw new Error('No master key configured; nothing to rotate (use migrate with a new key instead)');
+  }
+
+  // The config prefers SECRETS_MASTER_KEY, so rewriting only the key file would leave the server on the old key
+  const { masterKey, masterKeyFile } = getAppConfig().secrets;
+  if (masterKey && masterKeyFile) {
+    throw new Error('Both SECRETS_MASTER_KEY and SECRETS_MASTER_KEY_FILE are set; unset one before rotating');
+  }
+
+  const newKeyHex = generateMasterKey();
+  const newKey = parseMasterKey(newKeyHex);
+
+  // Prepare every file before touching the database, so a failure leaves the old key working
+  const envNames = await getSecretEnvNames();
+  if (!masterKeyFile) envNames.add('SECRETS_MASTER_KEY');
+  const env = rewriteEnvFile(envNames, value => {
+    if (value === process.env.SECRETS_MASTER_KEY) return newKeyHex;
+    return isEncryptedSecret(value) ? encryptSecret(decryptSecret(value, oldKey), newKey) : null;
+  });
+  if (masterKeyFile) {
+    fs.writeFileSync(`${masterKeyFile}.new`, `${newKeyHex}\n`, { mode: 0o600 });
+  }
+  // Key only in the process environment: nowhere to write it, so show it before the database needs it
+  const keyOnlyInProcessEnv = !masterKeyFile && !env.changed.includes('SECRETS_MASTER_KEY');
+  if (keyOnlyInProcessEnv) {
+    console.log('🔑 New key (save it now; the database is re-encrypted with it next):');
+    console.log(`   ${newKeyHex}`);
+  }
+
+  const counts = reencryptSecrets(oldKey, newKey);
+  console.log('🔁 SQLite:');
+  for (const [column, count] of Object.entries(counts)) {
+    console.log(`   ${column}: ${count} re-encrypted`);
+  }
+
+  if (env.changed.length > 0) {
+    writeFileAtomic(ENV_FILE, env.content);
+    console.log(`🔁 .env: ${env.changed.join(', ')}`);
+  }
+
+  if (masterKeyFile) {
+    fs.renameSync(`${masterKeyFile}.new`, masterKeyFile);
+    console.log(`🔑 New key written to ${masterKeyFile}`);
+  } else if (keyOnlyInProcessEnv) {
+    console.log('🔑 Set SECRETS_MASTER_KEY to the new key printed above and restart the server');
+  } else {
+    console.log('🔑 New key written to SECRETS_MASTER_KEY in .env; restart the server');
+  }
+}
+
+async function encrypt() {
+  const { encryptSecret } = await import('../app/lib/secrets');
+  const value = fs.readFileSync(0, 'utf-8').trim();
+  if (!value) {
+    throw new Error('Pipe the value to encrypt on stdin, e.g. printf %s "$TOKEN" | npm run -s secrets -- encrypt');
+  }
+  console.log(encryptSecret(value));
+}
+
+async function main() {
+  const command = process.argv[2];
+
+  try {
+    switch (command) {
+      case 'generate-key': {
+        const { generateMasterKey } = await import('../app/lib/secrets');
+        console.log(generateMasterKey());
+        break;
+      }
+      case 'encrypt':
+        await encrypt();
+        break;
+      case 'migrate':
+        await migrate();
+        break;
+      case 'rotate':
+        await rotate();
+        break;
+      default:
+        console.error('Usage: npm run secrets -- <generate-key|encrypt|migrate|rotate>');
+        process.exit(1);
+    }
+  } catch (error) {
+    console.error('💥', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -19,6 +19,7 @@
 import { execSync } from 'child_process';
 import path from 'path';
 import dotenv from 'dotenv';
+import { getAppConfig } from '../app/lib/config';
 
 // Load environment variables
 dotenv.config({ path: path.resolve('.env') });
@@ -37,7 +38,7 @@ async function runCommand(command: string, description: string): Promise<{ succe
     const output = execSync(command, {
       encoding: 'utf8',
       stdio: 'pipe',
-      env: { ...process.env, SERVER_URL: process.env.SERVER_URL || 'http://localhost:3000' }
+      env: { ...process.env, SERVER_URL: getAppConfig().reports.baseUrl || 'http://localhost:3000' }
     });
     
     console.log(`✅ ${description} completed successfully`);
@@ -89,14 +90,14 @@ async function main() {
   console.log('==========================================\n');
   
   // Check if email is enabled
-  const emailEnabled = process.env.EMAIL_ENABLED === 'true';
+  const emailEnabled = getAppConfig().email.enabled;
   if (!emailEnabled) {
     console.error('❌ EMAIL_ENABLED must be set to true in .env file');
     process.exit(1);
   }
   
-  console.log(`📧 Email recipient: ${process.env.EMAIL_RECIPIENT}`);
-  console.log(`🔗 Server URL: ${process.env.SERVER_URL || 'http://localhost:3000'}\n`);
+  console.log(`📧 Email recipient: ${getAppConfig().email.recipient}`);
+  console.log(`🔗 Server URL: ${getAppConfig().reports.baseUrl || 'http://localhost:3000'}\n`);
   
   const startTime = Date.now();
   const results: { step: string; success: boolean; details?: any }[] = [];
@@ -142,7 +143,7 @@ async function main() {
   console.log('\n🎯 WORKFLOW SUMMARY');
   console.log('==================');
   console.log(`⏱️  Total time: ${duration} seconds`);
-  console.log(`📧 Email recipient: ${process.env.EMAIL_RECIPIENT}\n`);
+  console.log(`📧 Email recipient: ${getAppConfig().email.recipient}\n`);
   
   results.forEach(result => {
     const status = result.success ? '✅' : '❌';
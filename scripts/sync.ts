@@ -4,10 +4,15 @@
  * Clover Sync CLI Tool
  * 
  * Syncs customer data from Clover API to local SQLite database
- * Usage: npm run sync
+ * Usage: npm run sync [-- --full | --incremental]
+ *
+ * Without a flag, each merchant gets an incremental sync (customers modified
+ * since the last successful run), with a full reconciliation every
+ * CLOVER_FULL_RECONCILE_DAYS days.
  */
 
-import { CloverSyncService } from '../app/lib/clover-sync';
+import { CloverSyncService, type SyncMode } from '../app/lib/clover-sync';
+import { SyncLockedError } from '../app/lib/sync-lock';
 import dotenv from 'dotenv';
 import path from 'path';
 
@@ -18,10 +23,12 @@ async function main() {
   console.log('🔄 Starting Clover API sync...\n');
   
   const syncService = new CloverSyncService();
+  const args = process.argv.slice(2);
+  const mode: SyncMode = args.includes('--full') ? 'full' : args.includes('--incremental') ? 'incremental' : 'auto';
   
   try {
     const startTime = Date.now();
-    const result = await syncService.syncAllCustomers();
+    const result = await syncService.syncAllCustomers({ mode, trigger: 'cli' });
     const duration = Date.now() - startTime;
     
     if (result.success) {
@@ -31,8 +38,8 @@ async function main() {
       
       if (result.stats.customersByMerchant) {
         console.log('\n📈 Breakdown by merchant:');
-        for (const [currency, stats] of Object.entries(result.stats.customersByMerchant as any)) {
-          console.log(`   ${currency}: ${stats.synced}/${stats.fetched} customers (${stats.errors} errors)`);
+        for (const stats of Object.values(result.stats.customersByMerchant as Record<string, any>)) {
+          console.log(`   ${stats.label}: ${stats.synced}/${stats.fetched} customers, ${stats.mode} (${stats.errors} errors, ${stats.retries ?? 0} retries)`);
         }
       }
     } else {
@@ -60,13 +67,17 @@ async function main() {
     if (stats.customersByMerchant && stats.customersByMerchant.length > 0) {
       console.log('   By merchant:');
       stats.customersByMerchant.forEach((merchant: any) => {
-        console.log(`     ${merchant.merchantCurrency}: ${merchant.count} customers`);
+        console.log(`     ${merchant.label}: ${merchant.count} customers`);
       });
     }
     
-    console.log(`\n✨ Sync completed at ${new Date().toLocaleString()}`);
+    console.log(`\n✨ Sync run #${result.runId} completed at ${new Date().toLocaleString()}`);
     
   } catch (error) {
+    if (error instanceof SyncLockedError) {
+      console.error(`⏳ ${error.message}`);
+      process.exit(1);
+    }
     console.error('💥 Fatal error during sync:', error);
     process.exit(1);
   }